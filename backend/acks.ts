@@ -0,0 +1,29 @@
+import { RequestError } from 'shared';
+import type { Ack, AckError, AckResult } from 'shared';
+
+export const ok = <T>(data: T): AckResult<T> => ({ ok: true, data });
+
+// What went wrong, as the client gets it. Errors the modules did not give a
+// code are REQUEST_FAILED.
+export const toAckError = (error: unknown): AckError => ({
+    code: error instanceof RequestError ? error.code : 'REQUEST_FAILED',
+    message: error instanceof Error ? error.message : String(error),
+    retryable: error instanceof RequestError && error.retryable
+});
+
+// Answer an acknowledged request with whatever run returns, or with why it
+// failed. action describes the request for the log, e.g. 'joining room'.
+export const respond = async <T>(callback: Ack<T>, action: string, run: () => T | Promise<T>) => {
+    // Nobody to answer, e.g. a client on the wrong protocol
+    if (typeof callback !== 'function') {
+        console.warn(`Ignoring request without an ack: ${action}`);
+        return;
+    }
+
+    try {
+        callback(ok(await run()));
+    } catch (error) {
+        console.error(`Error ${action}:`, error);
+        callback({ ok: false, error: toAckError(error) });
+    }
+}
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import { RequestError } from 'shared';
+
+// Tokens are HS256 JWTs signed with AUTH_SECRET. Claims:
+//   sub  - user id
+//   name - display name
+//   room - the room the token is valid for, or '*' for any room
+//   role - 'host', 'speaker' or 'viewer'
+//   exp  - expiry, in seconds since the epoch
+export const ROLES = ['host', 'speaker', 'viewer'];
+
+const PERMISSIONS = {
+    host: ['produce', 'consume', 'chat', 'moderate', 'record', 'egress', 'ingest'],
+    speaker: ['produce', 'consume', 'chat'],
+    viewer: ['consume', 'chat']
+};
+
+const getSecret = () => {
+    const secret = process.env.AUTH_SECRET;
+    if (!secret) {
+        throw new Error('AUTH_SECRET is not set');
+    }
+    return secret;
+}
+
+export const isAuthConfigured = () => Boolean(process.env.AUTH_SECRET);
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+const sign = (data) => crypto.createHmac('sha256', getSecret()).update(data).digest('base64url');
+
+export const signToken = ({ userId, displayName, roomId, role }, expiresInSeconds = 60 * 60) => {
+    if (!ROLES.includes(role)) {
+        throw new Error(`Unknown role: ${role}`);
+    }
+
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+        sub: userId,
+        name: displayName,
+        room: roomId,
+        role,
+        exp: Math.floor(Date.now() / 1000) + expiresInSeconds
+    }));
+
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+// Verify a token and return the identity it carries
+export const verifyToken = (token) => {
+    if (typeof token !== 'string' || !token) {
+        throw new Error('Missing token');
+    }
+
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) {
+        throw new Error('Malformed token');
+    }
+
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new Error('Invalid token signature');
+    }
+
+    let claims;
+    try {
+        const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+        if (alg !== 'HS256') {
+            throw new Error(`Unsupported algorithm: ${alg}`);
+        }
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch (error) {
+        throw new Error(`Malformed token: ${error.message}`);
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+        throw new Error('Token expired');
+    }
+
+    if (!claims.sub || !claims.room || !ROLES.includes(claims.role)) {
+        throw new Error('Token is missing user, room or role');
+    }
+
+    return {
+        userId: String(claims.sub),
+        displayName: claims.name ? String(claims.name) : null,
+        roomId: String(claims.room),
+        role: claims.role
+    };
+}
+
+// Socket.IO handshake middleware: reject connections without a valid token
+export const authenticate = (socket, next) => {
+    try {
+        socket.data.user = verifyToken(socket.handshake.auth?.token);
+        next();
+    } catch (error) {
+        console.warn(`Rejected connection ${socket.id}: ${error.message}`);
+        const authError = new Error('Unauthorized');
+        authError.data = { code: 'UNAUTHORIZED', message: error.message };
+        next(authError);
+    }
+}
+
+// Express middleware for the HTTP API: the same tokens, sent as a bearer token
+export const authenticateRequest = (req, res, next) => {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    try {
+        if (scheme !== 'Bearer') {
+            throw new Error('Missing bearer token');
+        }
+        req.user = verifyToken(token);
+        next();
+    } catch (error) {
+        res.status(401).json({ code: 'UNAUTHORIZED', error: error.message });
+    }
+}
+
+export const canJoinRoom = (user, roomId) => user.roomId === '*' || user.roomId === roomId;
+
+export const isAllowed = (role, action) => Boolean(PERMISSIONS[role]?.includes(action));
+
+export const assertAllowed = (socket, action) => {
+    const role = socket.data.role;
+    if (!isAllowed(role, action)) {
+        throw new RequestError('FORBIDDEN', `Forbidden: ${role ?? 'unknown'} role cannot ${action}`);
+    }
+}
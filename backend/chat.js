@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { CHAT_LABEL, chatMessageSchema, parsePayload } from 'shared';
+import { getRoomRouter, getRoomRouters } from './fanout.js';
+import { store } from './store.js';
+
+// Room chat over DataChannels. Every participant sends on a chat
+// DataProducer of its own, which the server reads on a DirectTransport.
+// The server stamps each message, keeps the last ones and sends them on
+// through a DataProducer of its own on every router of the room, the one
+// participants consume. Clients without a DataChannel use Socket.IO.
+
+const CHAT_HISTORY_LIMIT = Number(process.env.CHAT_HISTORY_LIMIT) || 100;
+
+// Emits 'message' with the room id, the message and the ids of the peers
+// that already got it on a DataChannel
+export const chatEvents = new EventEmitter();
+
+const relays = new WeakMap(); // router -> Promise of { transport, dataProducer } the server chats on
+const listeners = new Map(); // roomId -> Map of peerId -> the DataConsumer it reads chat on
+
+// Where the server reads and sends chat on a router, made on first use
+const getRelay = (router) => {
+    if (!relays.has(router)) {
+        relays.set(router, (async () => {
+            const transport = await router.createDirectTransport();
+            const dataProducer = await transport.produceData({ label: CHAT_LABEL });
+            return { transport, dataProducer };
+        })().catch((error) => {
+            relays.delete(router);
+            throw error;
+        }));
+    }
+    return relays.get(router);
+}
+
+// The last messages from earlier calls in the room, so scrollback survives
+// the room closing and the server restarting
+export const loadChatHistory = async (roomId) => {
+    try {
+        return await store.listChatMessages(roomId, { limit: CHAT_HISTORY_LIMIT });
+    } catch (error) {
+        console.error(`Error loading chat history for room ${roomId}:`, error);
+        return [];
+    }
+}
+
+// Stamp a message, keep it in the room's history and send it to everyone
+export const postMessage = async (room, peerId, text) => {
+    const message = {
+        messageId: crypto.randomUUID(),
+        socketId: peerId,
+        displayName: room.peers.get(peerId)?.displayName ?? peerId,
+        text,
+        sentAt: new Date().toISOString()
+    };
+
+    room.chatHistory.push(message);
+    if (room.chatHistory.length > CHAT_HISTORY_LIMIT) {
+        room.chatHistory.shift();
+    }
+
+    // Only routers someone consumes chat on have a relay
+    const data = JSON.stringify(message);
+    await Promise.all(getRoomRouters(room)
+        .filter(({ router }) => relays.has(router))
+        .map(async ({ router }) => (await getRelay(router)).dataProducer.send(data)));
+
+    chatEvents.emit('message', room.id, message, Array.from(listeners.get(room.id)?.keys() ?? []));
+    return message;
+}
+
+// Read what a participant sends on its chat DataProducer
+export const readChat = async (room, dataProducer, peerId) => {
+    const { transport } = await getRelay(room.router);
+    const dataConsumer = await transport.consumeData({ dataProducerId: dataProducer.id });
+
+    dataConsumer.on('message', (data) => {
+        try {
+            const { text } = parsePayload(chatMessageSchema, JSON.parse(data.toString()));
+            postMessage(room, peerId, text)
+                .catch((error) => console.error(`Error sending chat message from ${peerId}:`, error));
+        } catch (error) {
+            console.warn(`Ignoring chat message from ${peerId}: ${error.message}`);
+        }
+    });
+}
+
+// Send the room's chat to a participant, on the router its transport is on
+export const subscribeChat = async (room, transport, peerId) => {
+    const router = getRoomRouter(room, transport.appData.routerId);
+    const { dataProducer } = await getRelay(router);
+    const dataConsumer = await transport.consumeData({ dataProducerId: dataProducer.id });
+
+    if (!listeners.has(room.id)) {
+        listeners.set(room.id, new Map());
+    }
+    const roomListeners = listeners.get(room.id);
+    roomListeners.set(peerId, dataConsumer);
+
+    // Closed with its transport, e.g. when the peer leaves
+    dataConsumer.observer.once('close', () => {
+        if (roomListeners.get(peerId) === dataConsumer) {
+            roomListeners.delete(peerId);
+        }
+        if (roomListeners.size === 0 && listeners.get(room.id) === roomListeners) {
+            listeners.delete(room.id);
+        }
+    });
+
+    return dataConsumer;
+}
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+
+// Where the server listens and how clients reach it. Settings come from a
+// JSON file (CONFIG_FILE, default config.json in the working directory, if
+// there is one, see config.example.json) and environment variables override them:
+//
+//   {
+//     "port": 3000,                                  PORT
+//     "corsOrigins": ["https://app.example.com"],    CORS_ORIGINS, comma separated
+//     "webRtc": {
+//       "listenIp": "0.0.0.0",                       LISTEN_IP
+//       "announcedAddress": "203.0.113.10",          ANNOUNCED_ADDRESS
+//       "minPort": 40000,                            RTC_MIN_PORT
+//       "maxPort": 49999                             RTC_MAX_PORT
+//     },
+//     "ingest": {
+//       "listenIp": "0.0.0.0",                       INGEST_LISTEN_IP
+//       "announcedAddress": "203.0.113.10"           INGEST_ANNOUNCED_ADDRESS
+//     },
+//     "tls": {                                       TLS_CERT, TLS_KEY
+//       "cert": "certificate/cert.crt",
+//       "key": "certificate/cert.key"
+//     },
+//     "bitrate": {
+//       "maxIncoming": 1500000,                      MAX_INCOMING_BITRATE, per producer transport
+//       "maxOutgoing": 3000000                       MAX_OUTGOING_BITRATE, per consumer transport
+//     },
+//     "iceServers": [                                ICE_SERVERS, as JSON
+//       { "urls": "turn:turn.example.com:3478", "username": "user", "credential": "secret" }
+//     ],
+//     "store": {
+//       "type": "sqlite",                            STORE, 'sqlite' or 'memory'
+//       "file": "data/history.db"                    STORE_FILE
+//     }
+//   }
+//
+// Listening on 0.0.0.0 needs an announced address that clients can reach.
+
+const readConfigFile = () => {
+    const file = path.resolve(process.env.CONFIG_FILE || 'config.json');
+    if (!fs.existsSync(file)) {
+        if (process.env.CONFIG_FILE) {
+            throw new Error(`Config file not found: ${file}`);
+        }
+        return {};
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+const fromFile = readConfigFile();
+const env = process.env;
+
+const toNumber = (value) => value === undefined || value === '' ? undefined : Number(value);
+
+const parseIceServers = (value) => {
+    const iceServers = JSON.parse(value);
+    if (!Array.isArray(iceServers)) {
+        throw new Error('ICE_SERVERS must be a JSON array');
+    }
+    return iceServers;
+}
+
+const webRtc = {
+    listenIp: env.LISTEN_IP || fromFile.webRtc?.listenIp || '127.0.0.1',
+    announcedAddress: env.ANNOUNCED_ADDRESS || fromFile.webRtc?.announcedAddress || undefined,
+    minPort: toNumber(env.RTC_MIN_PORT) ?? fromFile.webRtc?.minPort ?? 40000,
+    maxPort: toNumber(env.RTC_MAX_PORT) ?? fromFile.webRtc?.maxPort ?? 49999
+};
+
+if (webRtc.listenIp === '0.0.0.0' && !webRtc.announcedAddress) {
+    throw new Error('An announced address is required when listening on 0.0.0.0');
+}
+
+if (!(webRtc.minPort <= webRtc.maxPort)) {
+    throw new Error(`Invalid RTC port range: ${webRtc.minPort}-${webRtc.maxPort}`);
+}
+
+const tlsCert = env.TLS_CERT || fromFile.tls?.cert;
+const tlsKey = env.TLS_KEY || fromFile.tls?.key;
+
+if (Boolean(tlsCert) !== Boolean(tlsKey)) {
+    throw new Error('TLS needs both a certificate and a key');
+}
+
+const store = {
+    type: env.STORE || fromFile.store?.type || 'sqlite',
+    file: path.resolve(env.STORE_FILE || fromFile.store?.file || 'data/history.db')
+};
+
+if (!['sqlite', 'memory'].includes(store.type)) {
+    throw new Error(`Unknown store type: ${store.type}`);
+}
+
+export const config = {
+    port: toNumber(env.PORT) ?? fromFile.port ?? 3000,
+    corsOrigins: env.CORS_ORIGINS
+        ? env.CORS_ORIGINS.split(',').map(origin => origin.trim())
+        : fromFile.corsOrigins ?? ['http://localhost:5173'],
+    webRtc,
+    // Plain RTP from external encoders, see ingest.js. Defaults to the WebRTC addresses.
+    ingest: {
+        listenIp: env.INGEST_LISTEN_IP || fromFile.ingest?.listenIp || webRtc.listenIp,
+        announcedAddress: env.INGEST_ANNOUNCED_ADDRESS || fromFile.ingest?.announcedAddress || webRtc.announcedAddress
+    },
+    // What a sender may push to us and what we push to a receiver, in bits per second
+    bitrate: {
+        maxIncoming: toNumber(env.MAX_INCOMING_BITRATE) ?? fromFile.bitrate?.maxIncoming ?? 1500000,
+        maxOutgoing: toNumber(env.MAX_OUTGOING_BITRATE) ?? fromFile.bitrate?.maxOutgoing ?? 3000000
+    },
+    tls: tlsCert ? { cert: path.resolve(tlsCert), key: path.resolve(tlsKey) } : null,
+    // STUN/TURN servers for clients that cannot reach the announced address directly
+    iceServers: env.ICE_SERVERS ? parseIceServers(env.ICE_SERVERS) : fromFile.iceServers ?? [],
+    // Room, participant, chat and recording history, see store.ts
+    store
+};
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { createCA, createCert } from 'mkcert';
+
+// Create a local CA and a certificate signed by it, for testing over HTTPS
+// from other devices on the network:
+//   npm run cert -- --domain 192.168.1.20 --domain my-laptop.local
+// Then start the server with TLS_CERT=certificate/cert.crt TLS_KEY=certificate/cert.key,
+// and trust certificate/ca.crt on the devices.
+const { values } = parseArgs({
+    options: {
+        domain: { type: 'string', multiple: true, default: [] },
+        out: { type: 'string', default: 'certificate' },
+        validity: { type: 'string', default: '365' }
+    }
+});
+
+const validity = Number(values.validity);
+const domains = ['localhost', '127.0.0.1', ...values.domain];
+
+const ca = await createCA({
+    organization: 'mediasoup dev CA',
+    countryCode: 'US',
+    state: 'California',
+    locality: 'San Francisco',
+    validity
+});
+
+const cert = await createCert({
+    ca: { key: ca.key, cert: ca.cert },
+    domains,
+    validity
+});
+
+fs.mkdirSync(values.out, { recursive: true });
+fs.writeFileSync(path.join(values.out, 'ca.crt'), ca.cert);
+// The full chain, so clients that trust the CA accept it
+fs.writeFileSync(path.join(values.out, 'cert.crt'), `${cert.cert}${ca.cert}`);
+fs.writeFileSync(path.join(values.out, 'cert.key'), cert.key, { mode: 0o600 });
+
+console.log(`Certificate for ${domains.join(', ')} written to ${values.out}/`);
@@ -0,0 +1,26 @@
+import { parseArgs } from 'util';
+import { signToken, ROLES } from './auth.js';
+
+// Issue a client token for local testing:
+//   AUTH_SECRET=... npm run token -- --user alice --name Alice --room demo --role host
+const { values } = parseArgs({
+    options: {
+        user: { type: 'string' },
+        name: { type: 'string' },
+        room: { type: 'string', default: '*' },
+        role: { type: 'string', default: 'speaker' },
+        ttl: { type: 'string', default: '3600' }
+    }
+});
+
+if (!values.user || !ROLES.includes(values.role)) {
+    console.error(`Usage: npm run token -- --user <id> [--name <display name>] [--room <room id | *>] [--role ${ROLES.join('|')}] [--ttl <seconds>]`);
+    process.exit(1);
+}
+
+console.log(signToken({
+    userId: values.user,
+    displayName: values.name ?? values.user,
+    roomId: values.room,
+    role: values.role
+}, Number(values.ttl)));
@@ -0,0 +1,166 @@
+import path from 'path';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { mkdir, rm } from 'fs/promises';
+import { RequestError } from 'shared';
+import {
+    createRtpStreams,
+    closeRtpStreams,
+    resumeRtpStreams,
+    startFfmpeg,
+    stopFfmpeg
+} from './rtpSink.js';
+
+// HLS playlists and segments, one directory per output, served under /hls
+export const HLS_DIR = path.resolve(process.env.HLS_DIR || 'hls');
+const HLS_SEGMENT_SECONDS = 2;
+const HLS_PLAYLIST_SIZE = 6;
+// Players that are still on the last segments get this long before they go
+const HLS_CLEANUP_DELAY = 60 * 1000;
+
+export const EGRESS_TYPES = ['hls', 'rtmp'];
+
+// Emits 'started' and 'stopped' with the room id and the output's description
+export const egressEvents = new EventEmitter();
+
+const outputs = new Map(); // egressId -> output in progress
+
+// HLS and RTMP players want H264 and AAC, whatever the browser sent us.
+// A key frame every 2 seconds lines up with the HLS segments.
+const TRANSCODE_ARGS = [
+    '-map', '0',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-tune', 'zerolatency',
+    '-pix_fmt', 'yuv420p',
+    '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-ar', '48000'
+];
+
+const getOutputArgs = (output) => output.type === 'hls'
+    ? [
+        ...TRANSCODE_ARGS,
+        '-f', 'hls',
+        '-hls_time', String(HLS_SEGMENT_SECONDS),
+        '-hls_list_size', String(HLS_PLAYLIST_SIZE),
+        '-hls_flags', 'delete_segments',
+        path.join(output.dir, 'index.m3u8')
+    ]
+    : [...TRANSCODE_ARGS, '-f', 'flv', output.url];
+
+// The RTMP URL usually carries a stream key, so it is never handed back out
+const describeEgress = (output) => ({
+    egressId: output.id,
+    roomId: output.roomId,
+    type: output.type,
+    socketId: output.socketId,
+    displayName: output.displayName,
+    startedAt: output.startedAt,
+    playlistUrl: output.type === 'hls' ? `/hls/${output.id}/index.m3u8` : null
+});
+
+export const getEgress = (egressId) => {
+    const output = outputs.get(egressId);
+    return output ? describeEgress(output) : null;
+}
+
+export const listEgress = (roomId) => Array.from(outputs.values())
+    .filter(output => output.roomId === roomId)
+    .map(describeEgress);
+
+// Push one broadcaster's camera and mic to an RTMP endpoint or into HLS segments.
+// broadcaster is { socketId, displayName, producers }.
+export const startEgress = async (room, broadcaster, { type, url }) => {
+    if (!EGRESS_TYPES.includes(type)) {
+        throw new RequestError('INVALID_PAYLOAD', `Unknown egress type: ${type}`);
+    }
+
+    if (type === 'rtmp' && !/^rtmps?:\/\//.test(url ?? '')) {
+        throw new RequestError('INVALID_PAYLOAD', 'An rtmp:// or rtmps:// URL is required');
+    }
+
+    const id = crypto.randomUUID();
+    const output = {
+        id,
+        roomId: room.id,
+        type,
+        url: type === 'rtmp' ? url : null,
+        dir: type === 'hls' ? path.join(HLS_DIR, id) : null,
+        socketId: broadcaster.socketId,
+        displayName: broadcaster.displayName,
+        startedAt: new Date().toISOString(),
+        streams: [],
+        ffmpeg: null
+    };
+
+    // The output ends with the broadcast: the broadcaster stops sending,
+    // ffmpeg gives up (e.g. the RTMP server went away) or the router closes.
+    // Before it has started, that fails the start instead.
+    let starting = true;
+    let endedWhileStarting = false;
+    const stopOnEnd = () => {
+        if (starting) {
+            endedWhileStarting = true;
+        } else if (outputs.get(id) === output) {
+            stopEgress(id).catch((error) => console.error(`Error stopping egress ${id}:`, error));
+        }
+    };
+
+    try {
+        if (output.dir) {
+            await mkdir(output.dir, { recursive: true });
+        }
+
+        output.streams = await createRtpStreams(room.router, broadcaster.producers);
+        output.ffmpeg = await startFfmpeg(output.streams, getOutputArgs(output), `${type} ${id}`);
+        outputs.set(id, output);
+
+        broadcaster.producers.forEach(producer => producer.observer.once('close', stopOnEnd));
+        output.ffmpeg.once('exit', stopOnEnd);
+        room.router.observer.once('close', stopOnEnd);
+
+        // ffmpeg gets a moment to start here, a bad RTMP URL ends it by then
+        await resumeRtpStreams(output.streams);
+        if (output.ffmpeg.exitCode !== null) {
+            throw new Error(`ffmpeg exited with code ${output.ffmpeg.exitCode}`);
+        }
+        if (endedWhileStarting) {
+            throw new Error('The broadcast ended before the egress started');
+        }
+        starting = false;
+    } catch (error) {
+        outputs.delete(id);
+        output.ffmpeg?.kill('SIGKILL');
+        closeRtpStreams(output.streams);
+        throw error;
+    }
+
+    console.log(`Egress ${id} (${type}) started for ${broadcaster.displayName} in room ${room.id}`);
+    egressEvents.emit('started', room.id, describeEgress(output));
+    return describeEgress(output);
+}
+
+export const stopEgress = async (egressId) => {
+    const output = outputs.get(egressId);
+    if (!output) {
+        throw new RequestError('EGRESS_NOT_FOUND', 'Egress not found');
+    }
+    outputs.delete(egressId);
+
+    closeRtpStreams(output.streams);
+    await stopFfmpeg(output.ffmpeg);
+
+    if (output.dir) {
+        setTimeout(() => {
+            rm(output.dir, { recursive: true, force: true })
+                .catch((error) => console.error(`Error removing ${output.dir}:`, error));
+        }, HLS_CLEANUP_DELAY);
+    }
+
+    console.log(`Egress ${egressId} stopped`);
+    const description = describeEgress(output);
+    egressEvents.emit('stopped', output.roomId, description);
+    return description;
+}
@@ -0,0 +1,75 @@
+import express from 'express';
+import { parsePayload, RequestError, startEgressSchema } from 'shared';
+import { getRoom } from './rooms.js';
+import { getBroadcaster } from './peers.js';
+import { getEgress, listEgress, startEgress, stopEgress } from './egress.js';
+import { authenticateRequest, canJoinRoom, isAllowed } from './auth.js';
+
+const ERROR_STATUS = {
+    INVALID_PAYLOAD: 400,
+    NO_MEDIA: 409,
+    EGRESS_NOT_FOUND: 404,
+    UNAVAILABLE: 503
+};
+
+// HTTP API for egress, for tools that are not in the room:
+//   GET    /egress?roomId=    list a room's outputs
+//   POST   /egress            { roomId, type: 'hls' | 'rtmp', url?, socketId? }
+//   DELETE /egress/:egressId
+export const egressRouter = express.Router();
+
+egressRouter.use(express.json());
+egressRouter.use(authenticateRequest);
+
+const sendError = (res, action, error) => {
+    const status = error instanceof RequestError ? ERROR_STATUS[error.code] : undefined;
+    if (!status) {
+        console.error(`Error ${action}:`, error);
+    }
+    res.status(status ?? 500).json({ error: error.message, code: error instanceof RequestError ? error.code : 'REQUEST_FAILED' });
+}
+
+egressRouter.get('/', (req, res) => {
+    const { roomId } = req.query;
+    if (typeof roomId !== 'string' || !canJoinRoom(req.user, roomId)) {
+        return res.status(403).json({ error: 'Forbidden: token is not valid for this room' });
+    }
+
+    res.json(listEgress(roomId));
+});
+
+egressRouter.post('/', async (req, res) => {
+    const { roomId } = req.body ?? {};
+    if (typeof roomId !== 'string' || !canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, 'egress')) {
+        return res.status(403).json({ error: 'Forbidden: only hosts of this room can start an egress' });
+    }
+
+    const room = getRoom(roomId);
+    if (!room) {
+        return res.status(404).json({ error: 'Room not found' });
+    }
+
+    try {
+        const { type, url, socketId } = parsePayload(startEgressSchema, req.body);
+        res.status(201).json(await startEgress(room, getBroadcaster(room, socketId), { type, url }));
+    } catch (error) {
+        sendError(res, 'starting egress', error);
+    }
+});
+
+egressRouter.delete('/:egressId', async (req, res) => {
+    const egress = getEgress(req.params.egressId);
+    if (!egress) {
+        return res.status(404).json({ error: 'Egress not found' });
+    }
+
+    if (!canJoinRoom(req.user, egress.roomId) || !isAllowed(req.user.role, 'egress')) {
+        return res.status(403).json({ error: 'Forbidden: only hosts of this room can stop an egress' });
+    }
+
+    try {
+        res.json(await stopEgress(egress.egressId));
+    } catch (error) {
+        sendError(res, 'stopping egress', error);
+    }
+});
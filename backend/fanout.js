@@ -0,0 +1,89 @@
+import { createRouter, getLeastLoadedWorker, getRouterConsumerCount } from './mediasoup.js';
+
+// How many consumers a router carries before viewers spill over to another one
+const MAX_CONSUMERS_PER_ROUTER = Number(process.env.MAX_CONSUMERS_PER_ROUTER) || 500;
+
+const hasCapacity = (router) => getRouterConsumerCount(router) < MAX_CONSUMERS_PER_ROUTER;
+
+// Every router in the room: the origin that producers send to, then the viewer routers
+export const getRoomRouters = (room) => [
+    { router: room.router, worker: room.worker, role: 'origin' },
+    ...room.viewerRouters.map(({ router, worker }) => ({ router, worker, role: 'viewer' }))
+];
+
+export const getRoomRouter = (room, routerId) =>
+    getRoomRouters(room).find(({ router }) => router.id === routerId)?.router;
+
+// Mirror one of the origin's producers into a viewer router
+const pipeProducer = async (room, router, producerId) => {
+    try {
+        await room.router.pipeToRouter({ producerId, router });
+    } catch (error) {
+        console.error(`Error piping producer ${producerId} to router ${router.id}:`, error);
+    }
+}
+
+// Mirror a new producer into every viewer router, so viewers placed there can consume it
+export const pipeToViewerRouters = async (room, producerId) => {
+    // A router still being added only knows about the producers it started with
+    await room.pendingViewerRouter?.catch(() => {});
+    await Promise.all(room.viewerRouters.map(({ router }) => pipeProducer(room, router, producerId)));
+}
+
+// Add a viewer router on the least loaded worker this room is not on yet,
+// mirroring all of the origin's current producers into it
+const addViewerRouter = async (room, producerIds) => {
+    const usedWorkers = getRoomRouters(room).map(({ worker }) => worker);
+    const worker = await getLeastLoadedWorker(usedWorkers);
+    const router = await createRouter(worker);
+
+    await Promise.all(producerIds.map(producerId => pipeProducer(room, router, producerId)));
+
+    const viewerRouter = { router, worker };
+    room.viewerRouters.push(viewerRouter);
+    router.observer.on('close', () => {
+        room.viewerRouters = room.viewerRouters.filter(entry => entry !== viewerRouter);
+    });
+
+    console.log(`Viewer router ${router.id} added to room ${room.id} on worker ${worker.pid}`);
+    return router;
+}
+
+// Pick the router a new consumer transport goes on: the origin while it has
+// room, then the emptiest viewer router with capacity, then a new viewer router
+export const getConsumerRouter = async (room, producerIds) => {
+    if (hasCapacity(room.router)) {
+        return room.router;
+    }
+
+    const [available] = room.viewerRouters
+        .map(({ router }) => router)
+        .filter(hasCapacity)
+        .sort((a, b) => getRouterConsumerCount(a) - getRouterConsumerCount(b));
+    if (available) {
+        return available;
+    }
+
+    // Viewers arriving together should share the router being added
+    if (!room.pendingViewerRouter) {
+        room.pendingViewerRouter = addViewerRouter(room, producerIds)
+            .finally(() => {
+                room.pendingViewerRouter = null;
+            });
+    }
+    return room.pendingViewerRouter;
+}
+
+export const closeViewerRouters = (room) => {
+    room.viewerRouters.forEach(({ router }) => router.close());
+    room.viewerRouters = [];
+}
+
+// Where each router of the room lives and how many consumers it carries
+export const getRoomRouterStats = (room) => getRoomRouters(room).map(({ router, worker, role }) => ({
+    routerId: router.id,
+    role,
+    workerPid: worker.pid,
+    consumers: getRouterConsumerCount(router),
+    capacity: MAX_CONSUMERS_PER_ROUTER
+}));
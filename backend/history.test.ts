@@ -0,0 +1,52 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate } from 'timers/promises';
+
+// The store is picked from the config when it is first imported
+process.env.STORE = 'memory';
+const { store } = await import('./store.js');
+const { roomEvents } = await import('./rooms.js');
+const { peerEvents } = await import('./peers.js');
+const { chatEvents } = await import('./chat.js');
+const { recordingEvents } = await import('./recording.js');
+const { recordHistory } = await import('./history.js');
+
+before(() => recordHistory());
+
+// Writes are not awaited by whoever emits the event
+const saved = () => setImmediate();
+
+test('records a room from creation to close, with who came and went', async () => {
+    const room = { id: 'history-room', peers: new Map(), chatHistory: [] };
+    roomEvents.emit('created', room);
+    peerEvents.emit('peerJoined', room.id, { peerId: 'peer-1', userId: 'user-1', displayName: 'Ada', role: 'host' });
+    await saved();
+    peerEvents.emit('peerLeft', room.id, 'peer-1');
+    roomEvents.emit('closed', room);
+    await saved();
+
+    const record = await store.getRoom(room.id);
+    assert.ok(record?.closedAt);
+    const [participant] = await store.listParticipants(room.id);
+    assert.equal(participant.displayName, 'Ada');
+    assert.equal(participant.role, 'host');
+    assert.ok(participant.leftAt);
+});
+
+test('records chat, recordings and moderation', async () => {
+    const roomId = 'history-room-2';
+    const message = { messageId: 'm1', socketId: 'peer-1', displayName: 'Ada', text: 'hello', sentAt: new Date().toISOString() };
+    chatEvents.emit('message', roomId, message, []);
+    recordingEvents.emit('started', { id: roomId }, { recordingId: 'rec-1', startedAt: '2026-01-01T10:00:00.000Z' });
+    await saved();
+    recordingEvents.emit('stopped', { id: roomId }, { recordingId: 'rec-1', stoppedAt: '2026-01-01T10:10:00.000Z' });
+    const muteAll = { roomId, action: 'muteAll', by: 'peer-1', byName: 'Ada', peerId: null, peerName: null, at: new Date().toISOString() };
+    peerEvents.emit('moderated', roomId, muteAll);
+    await saved();
+
+    assert.deepEqual(await store.listChatMessages(roomId, { limit: 10 }), [message]);
+    assert.deepEqual(await store.listRecordings(roomId), [
+        { recordingId: 'rec-1', roomId, startedAt: '2026-01-01T10:00:00.000Z', stoppedAt: '2026-01-01T10:10:00.000Z' }
+    ]);
+    assert.deepEqual(await store.listModerationActions(roomId), [muteAll]);
+});
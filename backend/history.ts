@@ -0,0 +1,38 @@
+import { roomEvents } from './rooms.js';
+import { peerEvents } from './peers.js';
+import { chatEvents } from './chat.js';
+import { recordingEvents } from './recording.js';
+import { store } from './store.js';
+
+const now = () => new Date().toISOString();
+
+// A write that fails is logged and dropped, it must not get in the way of the call
+const save = (what: string, write: Promise<void>) => {
+    write.catch((error) => console.error(`Error saving ${what}:`, error));
+}
+
+// Write what happens in rooms to the store as it happens
+export const recordHistory = () => {
+    roomEvents.on('created', (room) => save(`room ${room.id}`, store.roomOpened(room.id, now())));
+
+    roomEvents.on('closed', (room) => save(`room ${room.id}`, store.roomClosed(room.id, now())));
+
+    peerEvents.on('peerJoined', (roomId, { peerId, userId, displayName, role }) => {
+        save(`join of ${peerId}`, store.participantJoined({ roomId, peerId, userId, displayName, role, joinedAt: now() }));
+    });
+
+    peerEvents.on('peerLeft', (roomId, peerId) => save(`leave of ${peerId}`, store.participantLeft(roomId, peerId, now())));
+
+    chatEvents.on('message', (roomId, message) => save(`chat message ${message.messageId}`, store.chatMessageSent(roomId, message)));
+
+    recordingEvents.on('started', (room, { recordingId, startedAt }) => {
+        save(`recording ${recordingId}`, store.recordingStarted({ recordingId, roomId: room.id, startedAt }));
+    });
+
+    recordingEvents.on('stopped', (_room, { recordingId, stoppedAt }) => {
+        save(`recording ${recordingId}`, store.recordingStopped(recordingId, stoppedAt));
+    });
+
+    // The audit log of what hosts did
+    peerEvents.on('moderated', (_roomId, event) => save(`${event.action} by ${event.by}`, store.moderationActionTaken(event)));
+}
@@ -0,0 +1,472 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import express from 'express';
+import cors from 'cors';
+import { Server } from 'socket.io';
+import type { DefaultEventsMap } from 'socket.io';
+import {
+    parsePayload,
+    joinRoomSchema,
+    resumeSessionSchema,
+    connectTransportSchema,
+    produceSchema,
+    consumeSchema,
+    produceDataSchema,
+    chatMessageSchema,
+    consumerSchema,
+    producerSchema,
+    setConsumerPreferredLayersSchema,
+    setBandwidthCapSchema,
+    startEgressSchema,
+    stopEgressSchema,
+    createIngestSchema,
+    closeIngestSchema,
+    restartIceSchema,
+    rtpCapabilitiesSchema,
+    setRoomLockedSchema,
+    lobbyDecisionSchema,
+    peerSchema
+} from 'shared';
+import type { ClientToServerEvents, ServerToClientEvents } from 'shared';
+import { createWorkers, getWorkerStats } from './mediasoup.js';
+import { roomEvents, listRooms, describeRoom } from './rooms.js';
+import { getRoomRouterStats } from './fanout.js';
+import { speakerEvents } from './speakers.js';
+import { recordingEvents } from './recording.js';
+import { egressEvents, HLS_DIR } from './egress.js';
+import { chatEvents } from './chat.js';
+import { egressRouter } from './egressApi.js';
+import { roomsRouter } from './roomsApi.js';
+import { recordHistory } from './history.js';
+import { whipRouter, whepRouter } from './whipApi.js';
+import {
+    getSocketRoom,
+    joinRoom,
+    createTransport,
+    connectTransport,
+    produce,
+    consume,
+    produceData,
+    consumeData,
+    sendChatMessage,
+    getChatHistory,
+    resumeConsumer,
+    setConsumerPreferredLayers,
+    setBandwidthCap,
+    closeProducer,
+    setProducerPaused,
+    listProducers,
+    startRoomRecording,
+    stopRoomRecording,
+    startRoomEgress,
+    stopRoomEgress,
+    listRoomEgress,
+    createRoomIngest,
+    closeRoomIngest,
+    listRoomIngests,
+    setRoomLock,
+    listLobby,
+    admitPeer,
+    denyPeer,
+    kickPeer,
+    muteAll,
+    stopVideo,
+    transferHost,
+    peerEvents,
+    leaveClosedRoom,
+    disconnectPeer,
+    resumeSession,
+    restartIce,
+    resetRoomMedia
+} from './peers.js';
+import { registerRoomProtocol } from './roomProtocol.js';
+import { respond } from './acks.js';
+import { authenticate, isAuthConfigured } from './auth.js';
+import { config } from './config.js';
+import type { SocketData } from './types.js';
+
+const app = express();
+// WHIP/WHEP clients in the browser need the session's Location
+app.use(cors({ origin: config.corsOrigins, exposedHeaders: ['Location'] }));
+
+// Browsers only allow camera and mic access from secure origins other than localhost
+const server = config.tls
+    ? https.createServer({ cert: fs.readFileSync(config.tls.cert), key: fs.readFileSync(config.tls.key) }, app)
+    : http.createServer(app);
+
+app.get('/', (_req, res) => {
+    res.send('Mediasoup Streaming Server');
+});
+
+// Worker load and where each room's routers are placed
+app.get('/stats', (_req, res) => {
+    res.json({
+        workers: getWorkerStats(),
+        rooms: listRooms().map(room => ({
+            roomId: room.id,
+            peers: room.peers.size,
+            routers: getRoomRouterStats(room)
+        }))
+    });
+});
+
+// Room history: chat scrollback, who was there, recordings, moderation
+app.use('/rooms', roomsRouter);
+
+// Egress outputs, and the HLS playlists and segments they write
+app.use('/egress', egressRouter);
+app.use('/hls', express.static(HLS_DIR));
+
+// Publishing and playback over WHIP/WHEP, without Socket.IO
+app.use('/whip', whipRouter);
+app.use('/whep', whepRouter);
+
+// Every event and its payload is declared in the shared package, and every
+// payload is checked against its schema there before a handler uses it
+const io = new Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>(server, {
+    cors: {
+        origin: config.corsOrigins,
+        methods: ['GET', 'POST'],
+    },
+    transports: ['websocket'],
+});
+
+// Every connection must carry a valid token
+io.use(authenticate);
+
+io.on('connection', async (socket) => {
+    console.log(`User connected: ${socket.id} (${socket.data.user.userId})`);
+
+    // Tell the client who it is authenticated as
+    socket.emit('user_id', socket.data.user);
+
+    // Join a room, creating its router on first join. In a room with a lobby
+    // the answer may be to wait, until lobbyAdmitted or lobbyDenied.
+    socket.on('joinRoom', (payload, callback) => respond(callback, 'joining room', async () => {
+        const { roomId, displayName, role, password } = parsePayload(joinRoomSchema, payload);
+        const { result } = await joinRoom(socket, { roomId, displayName, role, password }, {
+            onAdmitted: (joined) => socket.emit('lobbyAdmitted', joined),
+            onDenied: () => socket.emit('lobbyDenied', { roomId })
+        });
+        return result;
+    }));
+
+    // Take back the room and media of a session whose connection dropped
+    socket.on('resumeSession', (payload, callback) => respond(callback, 'resuming session', () => {
+        const { sessionId } = parsePayload(resumeSessionSchema, payload);
+        return resumeSession(socket, { sessionId });
+    }));
+
+    // Send router capabilities
+    socket.on('getRouterRtpCapabilities', (callback) => respond(callback, 'getting router capabilities', () => {
+        console.log('getRouterRtpCapabilities requested');
+        return getSocketRoom(socket).router.rtpCapabilities;
+    }));
+
+    // Create producer transport
+    socket.on('createProducerTransport', (callback) => respond(callback, 'creating producer transport', async () => {
+        console.log(`Creating producer transport for ${socket.id}`);
+        const transportOptions = await createTransport(socket, 'producer');
+
+        console.log(`Producer transport created: ${transportOptions.id}`);
+        return transportOptions;
+    }));
+
+    // Create consumer transport
+    socket.on('createConsumerTransport', (callback) => respond(callback, 'creating consumer transport', async () => {
+        console.log(`Creating consumer transport for ${socket.id}`);
+        const transportOptions = await createTransport(socket, 'consumer');
+
+        console.log(`Consumer transport created: ${transportOptions.id}`);
+        return transportOptions;
+    }));
+
+    // Connect producer transport
+    socket.on('connectProducerTransport', (payload, callback) => respond(callback, 'connecting producer transport', async () => {
+        const { dtlsParameters } = parsePayload(connectTransportSchema, payload);
+        await connectTransport(socket, 'producer', dtlsParameters);
+        return null;
+    }));
+
+    // Connect consumer transport
+    socket.on('connectConsumerTransport', (payload, callback) => respond(callback, 'connecting consumer transport', async () => {
+        const { dtlsParameters } = parsePayload(connectTransportSchema, payload);
+        await connectTransport(socket, 'consumer', dtlsParameters);
+        return null;
+    }));
+
+    // Produce media
+    socket.on('produce', (payload, callback) => respond(callback, 'producing', async () => {
+        const { kind, rtpParameters, appData } = parsePayload(produceSchema, payload);
+        const producer = await produce(socket, { kind, rtpParameters, appData });
+        return { id: producer.id };
+    }));
+
+    // Consume media, with the capabilities sent in setRtpCapabilities
+    socket.on('consume', (payload, callback) => respond(callback, 'consuming', async () => {
+        const { producerId } = parsePayload(consumeSchema, payload);
+        const { consumer } = await consume(socket, producerId);
+        return {
+            id: consumer.id,
+            producerId,
+            kind: consumer.kind,
+            rtpParameters: consumer.rtpParameters,
+        };
+    }));
+
+    // Resume consumer
+    socket.on('resumeConsumer', (payload, callback) => respond(callback, 'resuming consumer', async () => {
+        const { consumerId } = parsePayload(consumerSchema, payload);
+        await resumeConsumer(socket, consumerId);
+        return null;
+    }));
+
+    // Pick the simulcast/SVC layer a consumer receives
+    socket.on('setConsumerPreferredLayers', (payload, callback) => respond(callback, 'setting preferred layers', async () => {
+        const { consumerId, spatialLayer, temporalLayer } = parsePayload(setConsumerPreferredLayersSchema, payload);
+        await setConsumerPreferredLayers(socket, consumerId, { spatialLayer, temporalLayer });
+        return null;
+    }));
+
+    // Data saver: cap the bitrate we receive, null lifts the cap
+    socket.on('setBandwidthCap', (payload, callback) => respond(callback, 'setting bandwidth cap', async () => {
+        const { maxBitrate } = parsePayload(setBandwidthCapSchema, payload);
+        await setBandwidthCap(socket, maxBitrate);
+        return null;
+    }));
+
+    // Close one of our own producers
+    socket.on('closeProducer', (payload, callback) => respond(callback, 'closing producer', () => {
+        const { producerId } = parsePayload(producerSchema, payload);
+        closeProducer(socket, producerId);
+        return null;
+    }));
+
+    // Pause one of our producers (camera off, mic muted), or as a host someone else's
+    socket.on('pauseProducer', (payload, callback) => respond(callback, 'pausing producer', async () => {
+        const { producerId } = parsePayload(producerSchema, payload);
+        await setProducerPaused(socket, producerId, true);
+        return null;
+    }));
+
+    socket.on('resumeProducer', (payload, callback) => respond(callback, 'resuming producer', async () => {
+        const { producerId } = parsePayload(producerSchema, payload);
+        await setProducerPaused(socket, producerId, false);
+        return null;
+    }));
+
+    // Get existing producers for new client, and catch it up on the chat
+    socket.on('getProducers', (callback) => respond(callback, 'listing producers', () => {
+        const producers = listProducers(socket);
+        socket.emit('chatHistory', getChatHistory(socket));
+        return producers;
+    }));
+
+    // Room chat on DataChannels, see chat.js
+    socket.on('produceData', (payload, callback) => respond(callback, 'producing data', async () => {
+        const { sctpStreamParameters, label, protocol } = parsePayload(produceDataSchema, payload);
+        const dataProducer = await produceData(socket, { sctpStreamParameters, label, protocol });
+        return { id: dataProducer.id };
+    }));
+
+    socket.on('consumeData', (callback) => respond(callback, 'consuming data', () => consumeData(socket)));
+
+    socket.on('sendChatMessage', (payload, callback) => respond(callback, 'sending chat message', () => {
+        const { text } = parsePayload(chatMessageSchema, payload);
+        return sendChatMessage(socket, text);
+    }));
+
+    // Hosts: keep everyone but other hosts out, or let them in again
+    socket.on('setRoomLocked', (payload, callback) => respond(callback, 'locking room', () => {
+        const { locked } = parsePayload(setRoomLockedSchema, payload);
+        return setRoomLock(socket, locked);
+    }));
+
+    // Hosts: the lobby
+    socket.on('listLobby', (callback) => respond(callback, 'listing lobby', () => listLobby(socket)));
+
+    socket.on('admit', (payload, callback) => respond(callback, 'admitting peer', () => {
+        const { socketId } = parsePayload(lobbyDecisionSchema, payload);
+        admitPeer(socket, socketId);
+        return null;
+    }));
+
+    socket.on('deny', (payload, callback) => respond(callback, 'denying peer', () => {
+        const { socketId } = parsePayload(lobbyDecisionSchema, payload);
+        denyPeer(socket, socketId);
+        return null;
+    }));
+
+    // Hosts: moderation, see the moderation event
+    socket.on('kickPeer', (payload, callback) => respond(callback, 'kicking peer', () => {
+        const { peerId } = parsePayload(peerSchema, payload);
+        kickPeer(socket, peerId);
+        return null;
+    }));
+
+    socket.on('muteAll', (callback) => respond(callback, 'muting everyone', async () => {
+        return { muted: await muteAll(socket) };
+    }));
+
+    socket.on('stopVideo', (payload, callback) => respond(callback, 'stopping video', () => {
+        const { peerId } = parsePayload(peerSchema, payload);
+        stopVideo(socket, peerId);
+        return null;
+    }));
+
+    socket.on('transferHost', (payload, callback) => respond(callback, 'transferring host', () => {
+        const { peerId } = parsePayload(peerSchema, payload);
+        transferHost(socket, peerId);
+        return null;
+    }));
+
+    // Hosts: record the room to disk
+    socket.on('startRecording', (callback) => respond(callback, 'starting recording', () => startRoomRecording(socket)));
+
+    socket.on('stopRecording', (callback) => respond(callback, 'stopping recording', () => stopRoomRecording(socket)));
+
+    // Hosts: push the room's broadcaster to an RTMP endpoint or HLS
+    socket.on('startEgress', (payload, callback) => respond(callback, 'starting egress', () => {
+        const { type, url, socketId } = parsePayload(startEgressSchema, payload);
+        return startRoomEgress(socket, { type, url, socketId });
+    }));
+
+    socket.on('stopEgress', (payload, callback) => respond(callback, 'stopping egress', () => {
+        const { egressId } = parsePayload(stopEgressSchema, payload);
+        return stopRoomEgress(socket, egressId);
+    }));
+
+    socket.on('listEgress', (callback) => respond(callback, 'listing egress', () => listRoomEgress(socket)));
+
+    socket.on('createIngest', (payload, callback) => respond(callback, 'creating ingest', () => {
+        const { displayName } = parsePayload(createIngestSchema, payload);
+        return createRoomIngest(socket, { displayName });
+    }));
+
+    socket.on('closeIngest', (payload, callback) => respond(callback, 'closing ingest', () => {
+        const { ingestId } = parsePayload(closeIngestSchema, payload);
+        return closeRoomIngest(socket, ingestId);
+    }));
+
+    socket.on('listIngests', (callback) => respond(callback, 'listing ingests', () => listRoomIngests(socket)));
+
+    // New ICE credentials for a transport whose connection failed
+    socket.on('restartIce', (payload, callback) => respond(callback, 'restarting ICE', async () => {
+        const { transportId } = parsePayload(restartIceSchema, payload);
+        const iceParameters = await restartIce(socket, transportId);
+        return { iceParameters };
+    }));
+
+    // Store client RTP capabilities. Clients wait for the ack before they
+    // consume, which fails with RTP_CAPABILITIES_MISSING without them.
+    socket.on('setRtpCapabilities', (rtpCapabilities, callback) => respond(callback, 'setting RTP capabilities', () => {
+        socket.data.rtpCapabilities = parsePayload(rtpCapabilitiesSchema, rtpCapabilities);
+        return null;
+    }));
+
+    registerRoomProtocol(socket);
+
+    // Handle disconnect
+    socket.on('disconnect', (reason) => {
+        console.log(`User disconnected: ${socket.id} (${reason})`);
+        disconnectPeer(socket, reason);
+    });
+});
+
+// Keep a record of rooms, participants, chat and recordings
+recordHistory();
+
+// Peers in a room that moved off a dead worker lost their transports, let them rebuild
+roomEvents.on('migrated', (room) => {
+    resetRoomMedia(room);
+    io.to(room.id).emit('roomMigrated', { roomId: room.id });
+});
+
+roomEvents.on('updated', (room) => {
+    io.to(room.id).emit('roomUpdated', describeRoom(room));
+});
+
+// A deleted room sends everyone still in it out
+roomEvents.on('closed', (room) => {
+    io.to(room.id).emit('roomClosed', { roomId: room.id });
+    leaveClosedRoom(room);
+});
+
+// The participant list. Whoever joined already knows, from joinRoom.
+peerEvents.on('peerJoined', (roomId, { peerId, displayName, role }) => {
+    io.to(roomId).except(peerId).emit('peerJoined', { socketId: peerId, displayName, role });
+});
+
+peerEvents.on('peerLeft', (roomId, peerId) => {
+    io.to(roomId).emit('peerLeft', { socketId: peerId });
+});
+
+// Everyone sees what hosts do, whoever it was done to acts on it
+peerEvents.on('moderated', (roomId, event) => {
+    io.to(roomId).emit('moderation', event);
+});
+
+// Producers no socket owns (ingests) are announced to everyone in the room
+peerEvents.on('producerAdded', (roomId, producer) => {
+    io.to(roomId).emit('newProducer', producer);
+    io.to(roomId).emit('new-producer', {
+        producerId: producer.producerId,
+        peerId: producer.socketId,
+        peerName: producer.displayName,
+        kind: producer.kind,
+        appData: producer.appData
+    });
+});
+
+peerEvents.on('producerRemoved', (roomId, producerId) => {
+    io.to(roomId).emit('producerClosed', { producerId });
+});
+
+// Who is talking, for highlighting tiles and the spotlight
+speakerEvents.on('activeSpeaker', (room, speaker) => {
+    io.to(room.id).emit('activeSpeaker', speaker);
+});
+
+speakerEvents.on('audioLevels', (room, levels) => {
+    io.to(room.id).emit('audioLevels', levels);
+});
+
+// Everyone in the room sees the REC indicator
+recordingEvents.on('started', (room, recording) => {
+    io.to(room.id).emit('recordingStarted', recording);
+});
+
+recordingEvents.on('stopped', (room, recording) => {
+    io.to(room.id).emit('recordingStopped', recording);
+});
+
+// Everyone else reads chat on their DataChannel
+chatEvents.on('message', (roomId, message, dataChannelPeerIds) => {
+    io.to(roomId).except(dataChannelPeerIds).emit('chatMessage', message);
+});
+
+egressEvents.on('started', (roomId, egress) => {
+    io.to(roomId).emit('egressStarted', egress);
+});
+
+egressEvents.on('stopped', (roomId, egress) => {
+    io.to(roomId).emit('egressStopped', egress);
+});
+
+if (!isAuthConfigured()) {
+    console.error('AUTH_SECRET must be set to verify client tokens');
+    process.exit(1);
+}
+
+// Nothing can be served without workers, so they come up before anyone can connect
+try {
+    await createWorkers();
+} catch (error) {
+    console.error('Error creating mediasoup workers:', error);
+    process.exit(1);
+}
+
+server.listen(config.port, () => {
+    console.log(`Server is running on ${config.tls ? 'https' : 'http'} port ${config.port}`);
+});
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { RequestError } from 'shared';
+import { config } from './config.js';
+
+// Feeds from external encoders (ffmpeg, GStreamer, hardware encoders) pushed
+// as plain RTP into a room. Each ingest gets a PlainTransport per kind with
+// comedia, so mediasoup learns where the encoder sends from on the first
+// packet, and one producer per kind that the room consumes like a webcam.
+
+// What the encoder has to send. H264 constrained baseline is the profile
+// every browser decodes, and nothing is transcoded on the way.
+const INGEST_CODECS = {
+    audio: {
+        mimeType: 'audio/opus',
+        payloadType: 101,
+        clockRate: 48000,
+        channels: 2,
+        parameters: { 'sprop-stereo': 1 }
+    },
+    video: {
+        mimeType: 'video/H264',
+        payloadType: 102,
+        clockRate: 90000,
+        parameters: {
+            'packetization-mode': 1,
+            'profile-level-id': '42e01f',
+            'level-asymmetry-allowed': 1
+        }
+    }
+};
+
+// RTP packets have to fit the WebRTC path to the browsers unchanged
+const INGEST_PACKET_SIZE = 1200;
+
+const ingests = new Map(); // ingestId -> ingest
+
+const createSsrc = () => crypto.randomInt(1, 0xffffffff);
+
+// The sending side of an ffmpeg command for this ingest, for hosts to copy
+const getFfmpegCommand = ({ audio, video }) => [
+    'ffmpeg -re -i <input>',
+    `-map 0:v:0 -c:v libx264 -profile:v baseline -pix_fmt yuv420p -tune zerolatency -g 60`,
+    `-f rtp -ssrc ${video.ssrc} -payload_type ${video.payloadType} "rtp://${video.ip}:${video.port}?rtcpport=${video.port}&pkt_size=${INGEST_PACKET_SIZE}"`,
+    `-map 0:a:0 -c:a libopus -ac 2 -ar 48000 -b:a 128k`,
+    `-f rtp -ssrc ${audio.ssrc} -payload_type ${audio.payloadType} "rtp://${audio.ip}:${audio.port}?rtcpport=${audio.port}&pkt_size=${INGEST_PACKET_SIZE}"`
+].join(' \\\n  ');
+
+/** @returns {import('shared').IngestInfo} */
+const describeIngest = (ingest) => {
+    const endpoints = Object.fromEntries(ingest.streams.map(({ kind, transport, ssrc }) => [kind, {
+        // The announced address when there is one
+        ip: transport.tuple.localAddress,
+        port: transport.tuple.localPort,
+        payloadType: INGEST_CODECS[kind].payloadType,
+        ssrc
+    }]));
+
+    return {
+        ingestId: ingest.id,
+        roomId: ingest.roomId,
+        peerId: ingest.peerId,
+        displayName: ingest.displayName,
+        createdAt: ingest.createdAt,
+        ...endpoints,
+        ffmpegCommand: getFfmpegCommand(endpoints)
+    };
+}
+
+export const getIngest = (ingestId) => {
+    const ingest = ingests.get(ingestId);
+    return ingest ? describeIngest(ingest) : null;
+}
+
+export const listIngests = (roomId) => Array.from(ingests.values())
+    .filter(ingest => ingest.roomId === roomId)
+    .map(describeIngest);
+
+// Open the ports for an encoder and create its producers on the room's
+// origin router. onProducer(producer, { peerId, displayName }) hands each
+// producer to the room so it is announced like any other.
+export const createIngest = async (room, { displayName }, onProducer) => {
+    const id = crypto.randomUUID();
+    const ingest = {
+        id,
+        roomId: room.id,
+        // Stands in for a socket id, so clients group the feed's tracks
+        peerId: `ingest-${id}`,
+        displayName,
+        createdAt: new Date().toISOString(),
+        streams: []
+    };
+
+    try {
+        for (const kind of ['video', 'audio']) {
+            const stream = { kind, ssrc: createSsrc(), transport: null, producer: null };
+            ingest.streams.push(stream);
+
+            stream.transport = await room.router.createPlainTransport({
+                listenInfo: { protocol: 'udp', ip: config.ingest.listenIp, announcedAddress: config.ingest.announcedAddress },
+                rtcpMux: true,
+                comedia: true
+            });
+            stream.producer = await stream.transport.produce({
+                kind,
+                rtpParameters: {
+                    codecs: [INGEST_CODECS[kind]],
+                    encodings: [{ ssrc: stream.ssrc }]
+                },
+                appData: { source: kind === 'audio' ? 'mic' : 'webcam' }
+            });
+        }
+    } catch (error) {
+        ingest.streams.forEach(({ transport }) => transport?.close());
+        throw error;
+    }
+
+    ingests.set(id, ingest);
+
+    // The ports go away with the router, e.g. when the room closes or migrates
+    room.router.observer.once('close', () => {
+        if (ingests.get(id) === ingest) {
+            ingests.delete(id);
+            console.log(`Ingest ${id} closed with its router`);
+        }
+    });
+
+    try {
+        for (const { producer } of ingest.streams) {
+            await onProducer(producer, { peerId: ingest.peerId, displayName });
+        }
+    } catch (error) {
+        closeIngest(id);
+        throw error;
+    }
+
+    console.log(`Ingest ${id} (${displayName}) created in room ${room.id}`);
+    return describeIngest(ingest);
+}
+
+// Close the ports, which closes the producers and with them every consumer
+export const closeIngest = (ingestId) => {
+    const ingest = ingests.get(ingestId);
+    if (!ingest) {
+        throw new RequestError('INGEST_NOT_FOUND', 'Ingest not found');
+    }
+    ingests.delete(ingestId);
+
+    const description = describeIngest(ingest);
+    ingest.streams.forEach(({ transport }) => transport.close());
+
+    console.log(`Ingest ${ingestId} closed`);
+    return description;
+}
@@ -0,0 +1,182 @@
+import os from 'os';
+import { EventEmitter } from 'events';
+import mediasoup from 'mediasoup';
+import { RequestError } from 'shared';
+import { config } from './config.js';
+
+// One worker per core unless MEDIASOUP_WORKERS says otherwise
+const NUM_WORKERS = Number(process.env.MEDIASOUP_WORKERS) || os.availableParallelism();
+
+// What the bandwidth estimator assumes a new transport can send before it knows better
+const INITIAL_OUTGOING_BITRATE = Number(process.env.INITIAL_OUTGOING_BITRATE) || 1000000;
+
+const workers = []; // { worker, load, routers }
+const pendingWorkers = new Set(); // Replacement workers still starting up
+const routerConsumers = new Map(); // routerId -> number of consumers on it
+
+// Emits 'died' with the dead worker once its replacement is starting
+export const workerEvents = new EventEmitter();
+
+// mediasoup adds the rtcpFeedback for each codec itself: nack, pli and fir,
+// plus transport-cc and goog-remb so the send side can estimate bandwidth
+// and switch layers whether the browser does transport-wide CC or only REMB
+export const mediaCodecs = [
+    {
+        kind: "audio",
+        mimeType: "audio/opus",
+        clockRate: 48000,
+        channels: 2
+    },
+    // VP8 for simulcast and VP9 for SVC, so receivers can be sent a lower layer
+    {
+        kind: "video",
+        mimeType: "video/VP8",
+        clockRate: 90000,
+        parameters: {
+            "x-google-start-bitrate": 1000
+        }
+    },
+    {
+        kind: "video",
+        mimeType: "video/VP9",
+        clockRate: 90000,
+        parameters: {
+            "profile-id": 0,
+            "x-google-start-bitrate": 1000
+        }
+    },
+    {
+        kind: "video",
+        mimeType: "video/H264",
+        clockRate: 90000,
+        parameters: {
+            "packetization-mode": 1,
+            "profile-level-id": "42e01f",
+            "level-asymmetry-allowed": 1
+        }
+    }
+];
+
+// Keep a running score of transports and consumers on each worker,
+// and of consumers on each router
+const trackLoad = (entry) => {
+    entry.worker.observer.on('newrouter', (router) => {
+        entry.routers++;
+        routerConsumers.set(router.id, 0);
+        router.observer.on('close', () => {
+            entry.routers--;
+            routerConsumers.delete(router.id);
+        });
+
+        router.observer.on('newtransport', (transport) => {
+            entry.load++;
+            transport.observer.on('close', () => entry.load--);
+
+            transport.observer.on('newconsumer', (consumer) => {
+                entry.load++;
+                routerConsumers.set(router.id, routerConsumers.get(router.id) + 1);
+                consumer.observer.on('close', () => {
+                    entry.load--;
+                    if (routerConsumers.has(router.id)) {
+                        routerConsumers.set(router.id, routerConsumers.get(router.id) - 1);
+                    }
+                });
+            });
+        });
+    });
+}
+
+const createWorker = async () => {
+    const worker = await mediasoup.createWorker({
+        logLevel: "warn",
+        logTags: { rtp: true, sctp: true }
+    });
+
+    const entry = { worker, load: 0, routers: 0 };
+    trackLoad(entry);
+    workers.push(entry);
+
+    worker.on('died', () => {
+        console.error(`mediasoup worker ${worker.pid} has died`);
+        workers.splice(workers.indexOf(entry), 1);
+
+        // Start the replacement before telling anyone, so rooms moving off
+        // the dead worker always have somewhere to go
+        const replacement = createWorker()
+            .catch((error) => console.error('Error replacing mediasoup worker:', error))
+            .finally(() => pendingWorkers.delete(replacement));
+        pendingWorkers.add(replacement);
+
+        workerEvents.emit('died', worker);
+    });
+
+    console.log(`Worker created: ${worker.pid}`);
+    return worker;
+}
+
+export const createWorkers = async () => {
+    for (let i = 0; i < NUM_WORKERS; i++) {
+        await createWorker();
+    }
+    console.log(`${workers.length} workers created`);
+}
+
+// Pick the worker with the fewest transports and consumers, then the fewest routers.
+// Workers in `avoid` are only used when there is no other choice.
+export const getLeastLoadedWorker = async (avoid = []) => {
+    const live = workers.filter(entry => !entry.worker.closed);
+    const preferred = live.filter(entry => !avoid.includes(entry.worker));
+
+    if (live.length === 0) {
+        if (pendingWorkers.size === 0) {
+            throw new RequestError('UNAVAILABLE', 'No mediasoup workers available');
+        }
+        await Promise.all(pendingWorkers);
+        return getLeastLoadedWorker(avoid);
+    }
+
+    const [best] = (preferred.length > 0 ? preferred : live).sort((a, b) => a.load - b.load || a.routers - b.routers);
+    return best.worker;
+}
+
+export const getRouterConsumerCount = (router) => routerConsumers.get(router.id) ?? 0;
+
+export const getWorkerStats = () => workers.map(({ worker, load, routers }) => ({
+    pid: worker.pid,
+    load,
+    routers
+}));
+
+// codecs replaces mediaCodecs for a router that needs its own payload types
+export const createRouter = async (worker, codecs = mediaCodecs) => {
+    const router = await worker.createRouter({ mediaCodecs: codecs });
+    console.log(`Router created on worker ${worker.pid}`);
+    return router;
+}
+
+export const createWebRtcTransport = async (router) => {
+    try {
+        const transport = await router.createWebRtcTransport({
+            appData: { routerId: router.id },
+            initialAvailableOutgoingBitrate: INITIAL_OUTGOING_BITRATE,
+            enableUdp: true,
+            enableTcp: true,
+            preferUdp: true,
+            // DataChannels, for room chat
+            enableSctp: true,
+            numSctpStreams: { OS: 1024, MIS: 1024 },
+            listenInfos: ['udp', 'tcp'].map(protocol => ({
+                protocol,
+                ip: config.webRtc.listenIp,
+                announcedAddress: config.webRtc.announcedAddress,
+                portRange: { min: config.webRtc.minPort, max: config.webRtc.maxPort }
+            }))
+        });
+
+        console.log(`Transport created with ID: ${transport.id}`);
+        return transport;
+    } catch (error) {
+        console.error('Error creating WebRTC transport:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,79 @@
+import type { ChatMessage, ModerationEvent } from 'shared';
+import type { ChatQuery, ParticipantRecord, RecordingRecord, RoomRecord, Store } from './store.js';
+
+// Keeps everything in process memory, gone on restart
+export const createMemoryStore = (): Store => {
+    const rooms = new Map<string, RoomRecord>();
+    const participants: ParticipantRecord[] = [];
+    const messages = new Map<string, ChatMessage[]>(); // roomId -> messages, oldest first
+    const recordings: RecordingRecord[] = [];
+    const moderationActions: ModerationEvent[] = [];
+
+    return {
+        async roomOpened(roomId, at) {
+            const room = rooms.get(roomId);
+            rooms.set(roomId, { roomId, createdAt: room?.createdAt ?? at, openedAt: at, closedAt: null });
+        },
+
+        async roomClosed(roomId, at) {
+            const room = rooms.get(roomId);
+            if (room) {
+                room.closedAt = at;
+            }
+        },
+
+        async participantJoined(participant) {
+            participants.push({ ...participant, leftAt: null });
+        },
+
+        async participantLeft(roomId, peerId, at) {
+            const participant = participants.find(p => p.roomId === roomId && p.peerId === peerId && !p.leftAt);
+            if (participant) {
+                participant.leftAt = at;
+            }
+        },
+
+        async chatMessageSent(roomId, message) {
+            if (!messages.has(roomId)) {
+                messages.set(roomId, []);
+            }
+            messages.get(roomId)!.push(message);
+        },
+
+        async recordingStarted(recording) {
+            recordings.push({ ...recording, stoppedAt: null });
+        },
+
+        async recordingStopped(recordingId, at) {
+            const recording = recordings.find(r => r.recordingId === recordingId);
+            if (recording) {
+                recording.stoppedAt = at;
+            }
+        },
+
+        async moderationActionTaken(event) {
+            moderationActions.push(event);
+        },
+
+        async getRoom(roomId) {
+            return rooms.get(roomId) ?? null;
+        },
+
+        async listParticipants(roomId) {
+            return participants.filter(p => p.roomId === roomId);
+        },
+
+        async listChatMessages(roomId, { before, limit }: ChatQuery) {
+            const earlier = (messages.get(roomId) ?? []).filter(m => !before || m.sentAt < before);
+            return earlier.slice(-limit);
+        },
+
+        async listRecordings(roomId) {
+            return recordings.filter(r => r.roomId === roomId);
+        },
+
+        async listModerationActions(roomId) {
+            return moderationActions.filter(a => a.roomId === roomId);
+        }
+    };
+}
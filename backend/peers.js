@@ -0,0 +1,1051 @@
+import { EventEmitter } from 'events';
+import { RequestError } from 'shared';
+import { createWebRtcTransport } from './mediasoup.js';
+import { config } from './config.js';
+import { getRoom, getOrCreateRoom, addPeer, removePeer, checkRoomPassword, setRoomLocked, describeRoom } from './rooms.js';
+import { assertAllowed, canJoinRoom, isAllowed } from './auth.js';
+import { getConsumerRouter, getRoomRouter, pipeToViewerRouters } from './fanout.js';
+import { addSpeaker } from './speakers.js';
+import { getRecording, startRecording, stopRecording, recordProducer } from './recording.js';
+import { getEgress, listEgress, startEgress, stopEgress } from './egress.js';
+import { getIngest, listIngests, createIngest, closeIngest } from './ingest.js';
+import { createSession, endSession, suspendSession, takeOverSession, getRoomSessionSockets, getSessionRoomId } from './sessions.js';
+import { postMessage, readChat, subscribeChat } from './chat.js';
+
+// Media state shared by the camelCase and kebab-case protocols
+export const transports = new Map(); // Store transports by socket id and direction
+export const producers = new Map(); // Store producers with the room they belong to
+export const consumers = new Map(); // Store consumers with the room they belong to
+
+// Emits 'producerAdded' with the room id and the producer's description, and
+// 'producerRemoved' with the room id and producer id, for producers that do
+// not belong to a socket (see addExternalProducer). Emits 'peerJoined' with
+// the room id and { peerId, userId, displayName, role }, and 'peerLeft' with
+// the room id and peer id. Emits 'moderated' with the room id and a
+// ModerationEvent whenever a host kicks, mutes, stops or hands over.
+export const peerEvents = new EventEmitter();
+
+// A peer is known by the id of the socket it joined with, which a socket
+// that resumes its session takes over
+const getPeerId = (socket) => socket.data.peerId ?? socket.id;
+
+// Events for one peer go to its own Socket.IO room, named after the peer id,
+// so they reach whichever socket holds the session
+const emitToPeer = (socket, event, data) => socket.nsp.to(getPeerId(socket)).emit(event, data);
+
+// Resolve the room a socket has joined
+export const getSocketRoom = (socket) => {
+    const room = getRoom(socket.data.roomId);
+    if (!room) {
+        throw new RequestError('NOT_IN_ROOM', 'Not in a room');
+    }
+    return room;
+}
+
+const getPeerName = (roomId, socketId) => getRoom(roomId)?.peers.get(socketId)?.displayName ?? socketId;
+
+const PRODUCER_SOURCES = ['mic', 'webcam', 'screen'];
+
+// Webcams are sent with three spatial layers, see the frontend's videoLayers
+const MAX_SPATIAL_LAYER = 2;
+
+// The highest spatial layer worth sending to a receiver capped at this bitrate
+const getSpatialLayerCeiling = (maxBitrate) => {
+    if (!maxBitrate) return MAX_SPATIAL_LAYER;
+    if (maxBitrate < 300000) return 0;
+    if (maxBitrate < 800000) return 1;
+    return MAX_SPATIAL_LAYER;
+}
+
+const getMaxOutgoingBitrate = (socket) => Math.min(socket.data.maxBitrate ?? config.bitrate.maxOutgoing, config.bitrate.maxOutgoing);
+
+const countRoomProducers = (roomId) => Array.from(producers.values()).filter(p => p.roomId === roomId).length;
+
+// Every producer is checked here before it joins the room, from a socket
+// (produce) or not (addExternalProducer: ingests and WHIP)
+const assertProducerCapacity = (room) => {
+    if (room.maxProducers !== null && countRoomProducers(room.id) >= room.maxProducers) {
+        throw new RequestError('ROOM_FULL', `Room ${room.id} has as many producers as it allows`);
+    }
+}
+
+const describeProducer = ({ producer, socketId, roomId, displayName }) => ({
+    producerId: producer.id,
+    socketId,
+    kind: producer.kind,
+    displayName: displayName ?? getPeerName(roomId, socketId),
+    appData: producer.appData,
+    paused: producer.paused
+});
+
+// What a client learns once it is in the room
+/** @returns {import('shared').JoinedRoom} */
+const describeJoined = (room, { peers, peerId, sessionId }) => ({
+    roomId: room.id,
+    room: describeRoom(room),
+    admitted: true,
+    peers,
+    peerId,
+    sessionId
+});
+
+const describeLobbyRequest = ({ socket, displayName, requestedAt }) => ({
+    socketId: socket.id,
+    userId: socket.data.user.userId,
+    displayName,
+    requestedAt
+});
+
+// Hosts see who is waiting in the lobby
+const emitToHosts = (socket, room, event, data) => {
+    const hostIds = Array.from(room.peers.values())
+        .filter(peer => isAllowed(peer.role, 'moderate'))
+        .map(peer => peer.socketId);
+    if (hostIds.length > 0) {
+        socket.nsp.to(hostIds).emit(event, data);
+    }
+}
+
+// Hosts of the room get in even when it is locked or has a password
+const checkRoomEntry = async (room, user, password) => {
+    if (isAllowed(user.role, 'moderate')) {
+        return;
+    }
+    if (room.locked) {
+        throw new RequestError('ROOM_LOCKED', `Room ${room.id} is locked`);
+    }
+    if (!await checkRoomPassword(room, password)) {
+        throw new RequestError('WRONG_PASSWORD', `Wrong password for room ${room.id}`);
+    }
+}
+
+// Hosts are no exception: a kicked host has to get a new room
+const assertNotBanned = (room, user) => {
+    if (room?.bannedUserIds.has(user.userId)) {
+        throw new RequestError('BANNED', `Removed from room ${room.id}`);
+    }
+}
+
+const assertRoomCapacity = (room) => {
+    if (room.peers.size >= room.maxParticipants) {
+        throw new RequestError('ROOM_FULL', `Room ${room.id} is full`);
+    }
+}
+
+// Join a room, creating its router on first join. The token decides the
+// room and role, a client may only ask to join with less (as a viewer).
+// Hosts of the room get in even when it is locked or has a password, and
+// skip its lobby. Everyone else waits there until a host decides: then
+// onAdmitted or onDenied is called. A room that closes denies everyone.
+/**
+ * @param {import('./types.js').AppSocket} socket
+ * @param {{ roomId: string, displayName?: string | null, role?: import('shared').Role, password?: string }} options
+ * @param {{ onAdmitted?: (joined: import('shared').JoinedRoom) => void, onDenied?: () => void }} [lobby]
+ * @returns {Promise<{ room: import('./types.js').Room, result: import('shared').JoinRoomResult }>}
+ */
+export const joinRoom = async (socket, { roomId, displayName, role, password }, { onAdmitted, onDenied } = {}) => {
+    const user = socket.data.user;
+
+    if (typeof roomId !== 'string' || !roomId) {
+        throw new RequestError('INVALID_PAYLOAD', 'Room ID is required');
+    }
+
+    if (!canJoinRoom(user, roomId)) {
+        throw new RequestError('FORBIDDEN', `Forbidden: token is not valid for room ${roomId}`);
+    }
+
+    if (socket.data.roomId || socket.data.lobbyRoomId) {
+        throw new RequestError('ALREADY_IN_ROOM', `Already in room ${socket.data.roomId ?? socket.data.lobbyRoomId}`);
+    }
+
+    const room = await getOrCreateRoom(roomId);
+    const isHost = isAllowed(user.role, 'moderate');
+    assertNotBanned(room, user);
+    await checkRoomEntry(room, user, password);
+
+    const name = user.displayName || displayName || socket.id;
+    const peerRole = role === 'viewer' ? 'viewer' : user.role;
+
+    if (room.lobby && !isHost) {
+        const request = { socket, displayName: name, role: peerRole, requestedAt: new Date().toISOString(), onAdmitted, onDenied };
+        room.waiting.set(socket.id, request);
+        socket.data.lobbyRoomId = roomId;
+        emitToHosts(socket, room, 'lobbyJoinRequest', describeLobbyRequest(request));
+
+        console.log(`${socket.id} is waiting to join room ${roomId}`);
+        return { room, result: { roomId, room: describeRoom(room), admitted: false } };
+    }
+
+    return { room, result: describeJoined(room, enterRoom(socket, room, { displayName: name, role: peerRole })) };
+}
+
+// Make a socket a peer of the room
+const enterRoom = (socket, room, { displayName, role }) => {
+    assertNotBanned(room, socket.data.user);
+    assertRoomCapacity(room);
+
+    const peers = Array.from(room.peers.values());
+
+    addPeer(room, socket.id, displayName, role);
+    socket.data.peerId = socket.id;
+    socket.data.roomId = room.id;
+    socket.data.role = role;
+    socket.join(room.id);
+    const sessionId = createSession(socket);
+
+    socket.to(room.id).emit('new-peer', { socketId: getPeerId(socket), name: displayName });
+    peerEvents.emit('peerJoined', room.id, { peerId: getPeerId(socket), userId: socket.data.user.userId, displayName, role });
+
+    // Let late joiners know they are being recorded
+    const recording = getRecording(room.id);
+    if (recording) {
+        socket.emit('recordingStarted', recording);
+    }
+
+    console.log(`${getPeerId(socket)} joined room ${room.id}`);
+    return { peers, peerId: getPeerId(socket), sessionId };
+}
+
+const externalPeers = new Map(); // peerId -> { userId, close }
+
+// A peer without a socket, e.g. a WHIP publisher. It gets in on the same
+// terms as a socket joining the room, and is announced like one. It cannot
+// wait in a lobby, so only hosts get into a room that has one. close ends
+// it when a host kicks it.
+/**
+ * @param {import('./types.js').Room} room
+ * @param {{ peerId: string, user: import('shared').Identity, displayName: string, password?: string, close: () => void }} peer
+ */
+export const addExternalPeer = async (room, { peerId, user, displayName, password, close }) => {
+    assertNotBanned(room, user);
+    await checkRoomEntry(room, user, password);
+    if (room.lobby && !isAllowed(user.role, 'moderate')) {
+        throw new RequestError('NOT_ADMITTED', `Room ${room.id} has a lobby, only hosts can publish into it directly`);
+    }
+    assertRoomCapacity(room);
+
+    addPeer(room, peerId, displayName, user.role);
+    externalPeers.set(peerId, { userId: user.userId, close });
+    peerEvents.emit('peerJoined', room.id, { peerId, userId: user.userId, displayName, role: user.role });
+    console.log(`${peerId} joined room ${room.id}`);
+}
+
+export const removeExternalPeer = (roomId, peerId) => {
+    externalPeers.delete(peerId);
+    if (!getRoom(roomId)?.peers.has(peerId)) {
+        return;
+    }
+    peerEvents.emit('peerLeft', roomId, peerId);
+    removePeer(roomId, peerId);
+}
+
+const takeLobbyRequest = (room, socketId) => {
+    const request = room.waiting.get(socketId);
+    if (!request) {
+        throw new RequestError('NOT_IN_LOBBY', `${socketId} is not waiting to join`);
+    }
+    return request;
+}
+
+const removeLobbyRequest = (room, request) => {
+    room.waiting.delete(request.socket.id);
+    delete request.socket.data.lobbyRoomId;
+    emitToHosts(request.socket, room, 'lobbyLeft', { socketId: request.socket.id });
+}
+
+// Hosts: the people waiting in the lobby, who came in before the host did
+export const listLobby = (socket) => {
+    assertAllowed(socket, 'moderate');
+    return Array.from(getSocketRoom(socket).waiting.values()).map(describeLobbyRequest);
+}
+
+// Hosts: let someone in from the lobby. A full room keeps them waiting.
+export const admitPeer = (socket, socketId) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    const request = takeLobbyRequest(room, socketId);
+
+    const joined = enterRoom(request.socket, room, request);
+    removeLobbyRequest(room, request);
+    request.onAdmitted?.(describeJoined(room, joined));
+
+    console.log(`${getPeerId(socket)} admitted ${socketId} to room ${room.id}`);
+}
+
+// Hosts: send someone in the lobby away
+export const denyPeer = (socket, socketId) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    const request = takeLobbyRequest(room, socketId);
+
+    removeLobbyRequest(room, request);
+    request.onDenied?.();
+
+    console.log(`${getPeerId(socket)} denied ${socketId} entry to room ${room.id}`);
+}
+
+// Stop waiting in the lobby, e.g. on disconnect
+const leaveLobby = (socket) => {
+    const room = getRoom(socket.data.lobbyRoomId);
+    const request = room?.waiting.get(socket.id);
+    if (request) {
+        removeLobbyRequest(room, request);
+    }
+    delete socket.data.lobbyRoomId;
+}
+
+// A peer has one transport per direction, so whatever it produced or
+// consumed in that direction was on it and closed along with it
+const forgetTransportMedia = (socket, direction) => {
+    const peerId = getPeerId(socket);
+    if (direction === 'producer') {
+        producers.forEach((producerData, producerId) => {
+            if (producerData.socketId === peerId) {
+                removeProducer(socket, producerId);
+            }
+        });
+        return;
+    }
+
+    consumers.forEach((consumerData, consumerId) => {
+        if (consumerData.socketId === peerId) {
+            consumers.delete(consumerId);
+        }
+    });
+}
+
+// Create a WebRTC transport in the given direction ('producer' or 'consumer').
+// Producers always send to the origin router, consumers go where there is capacity.
+export const createTransport = async (socket, direction) => {
+    if (socket.data.lobbyRoomId) {
+        throw new RequestError('NOT_ADMITTED', 'Waiting for a host to admit you');
+    }
+    assertAllowed(socket, direction === 'producer' ? 'produce' : 'consume');
+
+    const key = `${getPeerId(socket)}-${direction}`;
+    const room = getSocketRoom(socket);
+    const router = direction === 'consumer'
+        ? await getConsumerRouter(room, listRoomProducerIds(room.id))
+        : room.router;
+    const transport = await createWebRtcTransport(router);
+
+    if (direction === 'producer') {
+        await transport.setMaxIncomingBitrate(config.bitrate.maxIncoming);
+    } else {
+        await transport.setMaxOutgoingBitrate(getMaxOutgoingBitrate(socket));
+    }
+
+    // Creating a second transport in the same direction replaces the first
+    if (transports.has(key)) {
+        transports.get(key).close();
+        forgetTransportMedia(socket, direction);
+    }
+    transports.set(key, transport);
+
+    return {
+        id: transport.id,
+        iceParameters: transport.iceParameters,
+        iceCandidates: transport.iceCandidates,
+        dtlsParameters: transport.dtlsParameters,
+        sctpParameters: transport.sctpParameters,
+        // Passed on to the RTCPeerConnection, for clients behind strict NATs
+        iceServers: config.iceServers
+    };
+}
+
+// Find the direction of one of this socket's transports by its id
+export const getTransportDirection = (socket, transportId) => {
+    for (const direction of ['producer', 'consumer']) {
+        if (transports.get(`${getPeerId(socket)}-${direction}`)?.id === transportId) {
+            return direction;
+        }
+    }
+    throw new RequestError('TRANSPORT_NOT_FOUND', 'Transport not found');
+}
+
+export const connectTransport = async (socket, direction, dtlsParameters) => {
+    assertAllowed(socket, direction === 'producer' ? 'produce' : 'consume');
+
+    const transport = transports.get(`${getPeerId(socket)}-${direction}`);
+    if (!transport) {
+        throw new RequestError('TRANSPORT_NOT_FOUND', `${direction === 'producer' ? 'Producer' : 'Consumer'} transport not found`);
+    }
+    await transport.connect({ dtlsParameters });
+    return transport;
+}
+
+export const produce = async (socket, { kind, rtpParameters, appData }) => {
+    assertAllowed(socket, 'produce');
+
+    const transport = transports.get(`${getPeerId(socket)}-producer`);
+    if (!transport) {
+        throw new RequestError('TRANSPORT_NOT_FOUND', 'Producer transport not found');
+    }
+
+    const roomId = socket.data.roomId;
+    const room = getSocketRoom(socket);
+    assertProducerCapacity(room);
+
+    // Only the source tag is kept, it is forwarded to everyone in the room
+    const source = PRODUCER_SOURCES.includes(appData?.source)
+        ? appData.source
+        : (kind === 'audio' ? 'mic' : 'webcam');
+
+    const producer = await transport.produce({ kind, rtpParameters, appData: { source } });
+    const producerData = { producer, socketId: getPeerId(socket), roomId };
+    producers.set(producer.id, producerData);
+
+    // Let the sender see how well its upload is getting through
+    producer.on('score', (score) => {
+        emitToPeer(socket, 'producerScore', { producerId: producer.id, score });
+    });
+
+    console.log(`Producer created: ${producer.id} for ${getPeerId(socket)}`);
+
+    await addSpeaker(room, producer, getPeerId(socket));
+    await recordProducer(room, producer, getPeerId(socket));
+
+    // Viewers on other routers can only consume it once it is mirrored there
+    await pipeToViewerRouters(room, producer.id);
+
+    // Notify the other clients in the room about new producer
+    const description = describeProducer(producerData);
+    socket.to(roomId).emit("newProducer", description);
+    socket.to(roomId).emit('new-producer', {
+        producerId: producer.id,
+        peerId: getPeerId(socket),
+        peerName: description.displayName,
+        kind: producer.kind,
+        appData: producer.appData
+    });
+
+    return producer;
+}
+
+export const consume = async (socket, producerId) => {
+    console.log(`Consumer request for producer ${producerId} from ${getPeerId(socket)}`);
+    assertAllowed(socket, 'consume');
+
+    const transport = transports.get(`${getPeerId(socket)}-consumer`);
+    const producerData = producers.get(producerId);
+
+    if (!transport) {
+        throw new RequestError('TRANSPORT_NOT_FOUND', 'Consumer transport not found');
+    }
+
+    if (!producerData || producerData.roomId !== socket.data.roomId) {
+        throw new RequestError('PRODUCER_NOT_FOUND', 'Producer not found');
+    }
+
+    if (!socket.data.rtpCapabilities) {
+        throw new RequestError('RTP_CAPABILITIES_MISSING', 'RTP capabilities not set');
+    }
+
+    const { producer } = producerData;
+
+    console.log(`Checking if can consume: producerId=${producerId}, kind=${producer.kind}`);
+
+    // Check if we can consume on the router the consumer transport lives on
+    const router = getRoomRouter(getSocketRoom(socket), transport.appData.routerId);
+    const canConsume = router?.canConsume({
+        producerId,
+        rtpCapabilities: socket.data.rtpCapabilities
+    });
+
+    if (!canConsume) {
+        throw new RequestError('CANNOT_CONSUME', 'Cannot consume - incompatible RTP capabilities');
+    }
+
+    console.log('Creating consumer...');
+    const consumer = await transport.consume({
+        producerId,
+        rtpCapabilities: socket.data.rtpCapabilities,
+        paused: true, // Start paused
+    });
+
+    const consumerData = { consumer, socketId: getPeerId(socket), roomId: socket.data.roomId, preferredLayers: null };
+    consumers.set(consumer.id, consumerData);
+
+    // Report receive quality and the layer actually forwarded, which drops
+    // on its own when the bandwidth estimate does
+    consumer.on('score', (score) => {
+        emitToPeer(socket, 'consumerScore', { consumerId: consumer.id, producerId, score });
+    });
+    consumer.on('layerschange', (layers) => {
+        emitToPeer(socket, 'consumerLayersChanged', { consumerId: consumer.id, producerId, layers: layers ?? null });
+    });
+
+    if (socket.data.maxBitrate) {
+        await applyPreferredLayers(socket, consumerData);
+    }
+
+    // Let kebab-case clients drop the matching stream
+    consumer.on('producerclose', () => {
+        consumers.delete(consumer.id);
+        emitToPeer(socket, 'consumer-closed', { consumerId: consumer.id });
+    });
+
+    console.log(`Consumer created: ${consumer.id} for producer ${producerId}`);
+
+    return { consumer, source: describeProducer(producerData) };
+}
+
+// Send chat on a DataProducer of the socket's own, see chat.js
+export const produceData = async (socket, { sctpStreamParameters, label, protocol }) => {
+    assertAllowed(socket, 'chat');
+
+    const transport = transports.get(`${getPeerId(socket)}-producer`);
+    if (!transport) {
+        throw new RequestError('TRANSPORT_NOT_FOUND', 'Producer transport not found');
+    }
+
+    // Closed together with the transport
+    const dataProducer = await transport.produceData({ sctpStreamParameters, label, protocol });
+    await readChat(getSocketRoom(socket), dataProducer, getPeerId(socket));
+
+    console.log(`Data producer created: ${dataProducer.id} for ${getPeerId(socket)}`);
+    return dataProducer;
+}
+
+// Receive the room's chat on the consumer transport
+export const consumeData = async (socket) => {
+    assertAllowed(socket, 'chat');
+
+    const transport = transports.get(`${getPeerId(socket)}-consumer`);
+    if (!transport) {
+        throw new RequestError('TRANSPORT_NOT_FOUND', 'Consumer transport not found');
+    }
+
+    const dataConsumer = await subscribeChat(getSocketRoom(socket), transport, getPeerId(socket));
+    return {
+        id: dataConsumer.id,
+        dataProducerId: dataConsumer.dataProducerId,
+        sctpStreamParameters: dataConsumer.sctpStreamParameters,
+        label: dataConsumer.label,
+        protocol: dataConsumer.protocol
+    };
+}
+
+// Chat over Socket.IO, for clients without a DataChannel
+export const sendChatMessage = (socket, text) => {
+    assertAllowed(socket, 'chat');
+    return postMessage(getSocketRoom(socket), getPeerId(socket), text);
+}
+
+// What was said before we came in
+export const getChatHistory = (socket) => {
+    assertAllowed(socket, 'chat');
+    return getSocketRoom(socket).chatHistory;
+}
+
+export const resumeConsumer = async (socket, consumerId) => {
+    console.log(`Resuming consumer: ${consumerId}`);
+    assertAllowed(socket, 'consume');
+    const consumerData = consumers.get(consumerId);
+    if (!consumerData || consumerData.socketId !== getPeerId(socket)) {
+        throw new RequestError('CONSUMER_NOT_FOUND', 'Consumer not found');
+    }
+
+    await consumerData.consumer.resume();
+    console.log(`Consumer resumed: ${consumerId}`);
+}
+
+// Ask for the layers the client prefers for a consumer, but never above
+// what the socket's bandwidth cap allows
+const applyPreferredLayers = async (socket, { consumer, preferredLayers }) => {
+    // A single-encoding producer has no layers to pick from
+    if (consumer.type === 'simple' || consumer.closed) {
+        return;
+    }
+
+    const ceiling = getSpatialLayerCeiling(socket.data.maxBitrate);
+    await consumer.setPreferredLayers({
+        spatialLayer: Math.min(preferredLayers?.spatialLayer ?? ceiling, ceiling),
+        temporalLayer: preferredLayers?.temporalLayer
+    });
+}
+
+// Choose which simulcast stream or SVC layer a consumer receives,
+// e.g. the lowest one for a thumbnail
+export const setConsumerPreferredLayers = async (socket, consumerId, { spatialLayer, temporalLayer }) => {
+    assertAllowed(socket, 'consume');
+    const consumerData = consumers.get(consumerId);
+    if (!consumerData || consumerData.socketId !== getPeerId(socket)) {
+        throw new RequestError('CONSUMER_NOT_FOUND', 'Consumer not found');
+    }
+
+    if (!Number.isInteger(spatialLayer) || spatialLayer < 0) {
+        throw new RequestError('INVALID_PAYLOAD', 'spatialLayer must be a non-negative integer');
+    }
+
+    consumerData.preferredLayers = { spatialLayer, temporalLayer };
+    await applyPreferredLayers(socket, consumerData);
+    console.log(`Consumer ${consumerId} prefers spatial layer ${spatialLayer}`);
+}
+
+// Data saver: cap what this socket receives, or lift the cap with null.
+// The bandwidth estimator then keeps every consumer under it, and simulcast
+// and SVC consumers are held to the layers that fit.
+export const setBandwidthCap = async (socket, maxBitrate) => {
+    assertAllowed(socket, 'consume');
+
+    if (maxBitrate !== null && (!Number.isInteger(maxBitrate) || maxBitrate <= 0)) {
+        throw new RequestError('INVALID_PAYLOAD', 'maxBitrate must be a positive integer or null');
+    }
+
+    socket.data.maxBitrate = maxBitrate;
+    await transports.get(`${getPeerId(socket)}-consumer`)?.setMaxOutgoingBitrate(getMaxOutgoingBitrate(socket));
+
+    const ownConsumers = Array.from(consumers.values()).filter(c => c.socketId === getPeerId(socket));
+    await Promise.all(ownConsumers.map(consumerData => applyPreferredLayers(socket, consumerData)));
+
+    console.log(`Bandwidth cap for ${getPeerId(socket)}: ${maxBitrate ?? 'none'}`);
+}
+
+// Close a producer and tell the other clients in the room it is gone
+const removeProducer = (socket, producerId) => {
+    const producerData = producers.get(producerId);
+    producerData.producer.close();
+    producers.delete(producerId);
+    socket.to(producerData.roomId).emit("producerClosed", { producerId });
+}
+
+// Close one of the socket's own producers, e.g. when a screen share ends
+export const closeProducer = (socket, producerId) => {
+    const producerData = producers.get(producerId);
+    if (!producerData || producerData.socketId !== getPeerId(socket)) {
+        throw new RequestError('PRODUCER_NOT_FOUND', 'Producer not found');
+    }
+
+    removeProducer(socket, producerId);
+    console.log(`Producer closed: ${producerId} for ${getPeerId(socket)}`);
+}
+
+// Pause or resume a producer. Anyone may do this to their own producers,
+// a host may also pause anyone else's (e.g. to mute them), but only the
+// owner can turn their camera or mic back on.
+export const setProducerPaused = async (socket, producerId, paused) => {
+    const producerData = producers.get(producerId);
+    if (!producerData || producerData.roomId !== socket.data.roomId) {
+        throw new RequestError('PRODUCER_NOT_FOUND', 'Producer not found');
+    }
+
+    if (producerData.socketId !== getPeerId(socket)) {
+        if (!paused) {
+            throw new RequestError('FORBIDDEN', 'Forbidden: only the owner can resume a producer');
+        }
+        assertAllowed(socket, 'moderate');
+    }
+
+    const { producer } = producerData;
+    if (paused) {
+        await producer.pause();
+    } else {
+        await producer.resume();
+    }
+
+    // The owner hears about it too when a host did it for them
+    socket.to(producerData.roomId).emit(paused ? 'producerPaused' : 'producerResumed', {
+        ...describeProducer(producerData),
+        by: getPeerId(socket)
+    });
+
+    console.log(`Producer ${paused ? 'paused' : 'resumed'}: ${producerId} by ${getPeerId(socket)}`);
+}
+
+const listRoomProducerIds = (roomId) => Array.from(producers.values())
+    .filter(p => p.roomId === roomId)
+    .map(p => p.producer.id);
+
+// Producers in the socket's room, excluding its own
+export const listProducers = (socket) => {
+    assertAllowed(socket, 'consume');
+
+    return Array.from(producers.values())
+        .filter(p => p.roomId === socket.data.roomId && p.socketId !== getPeerId(socket))
+        .map(describeProducer);
+}
+
+// Add a producer that no socket owns, e.g. a feed from an external encoder,
+// and announce it to the whole room like any other. peerId stands in for
+// the socket id so clients can group its tracks. Throws ROOM_FULL past the
+// room's producer limit, the caller closes what it opened.
+export const addExternalProducer = async (room, producer, { peerId, displayName }) => {
+    assertProducerCapacity(room);
+    const producerData = { producer, socketId: peerId, roomId: room.id, displayName };
+    producers.set(producer.id, producerData);
+
+    producer.observer.once('close', () => {
+        if (producers.get(producer.id) === producerData) {
+            producers.delete(producer.id);
+            peerEvents.emit('producerRemoved', room.id, producer.id);
+        }
+    });
+
+    await addSpeaker(room, producer, peerId);
+    await recordProducer(room, producer, peerId);
+    await pipeToViewerRouters(room, producer.id);
+
+    console.log(`External producer added: ${producer.id} (${displayName}) in room ${room.id}`);
+    peerEvents.emit('producerAdded', room.id, describeProducer(producerData));
+}
+
+// Hosts: only other hosts get into a locked room
+export const setRoomLock = (socket, locked) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    setRoomLocked(room, locked);
+    return describeRoom(room);
+}
+
+// Someone else in the room for a host to act on, with the socket holding
+// their session (which may be waiting to be resumed). External peers have
+// no socket, only a way to close them.
+const getModerationTarget = (socket, room, peerId) => {
+    if (peerId === getPeerId(socket)) {
+        throw new RequestError('INVALID_PAYLOAD', 'Pick someone other than yourself');
+    }
+
+    const peer = room.peers.get(peerId);
+    const external = externalPeers.get(peerId);
+    if (peer && external) {
+        return { peerId, displayName: peer.displayName, userId: external.userId, socket: null, close: external.close };
+    }
+
+    const peerSocket = getRoomSessionSockets(room.id).find(s => getPeerId(s) === peerId);
+    if (!peer || !peerSocket) {
+        throw new RequestError('PEER_NOT_FOUND', 'That peer is not in the room');
+    }
+    return { peerId, displayName: peer.displayName, userId: peerSocket.data.user.userId, socket: peerSocket };
+}
+
+/** @returns {import('shared').ModerationEvent} */
+const describeModeration = (socket, room, action, target) => ({
+    roomId: room.id,
+    action,
+    by: getPeerId(socket),
+    byName: getPeerName(room.id, getPeerId(socket)),
+    peerId: target?.peerId ?? null,
+    peerName: target?.displayName ?? null,
+    at: new Date().toISOString()
+});
+
+const reportModeration = (socket, room, action, target = null) => {
+    const event = describeModeration(socket, room, action, target);
+    peerEvents.emit('moderated', room.id, event);
+    console.log(`${event.by} did ${action}${target ? ` to ${target.peerId}` : ''} in room ${room.id}`);
+}
+
+// Hosts: put someone out of the room. Their media is closed with their
+// transports, as when they leave, then they are disconnected. Their user
+// stays banned from the room until it closes, whatever their token says.
+export const kickPeer = (socket, peerId) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    const target = getModerationTarget(socket, room, peerId);
+
+    room.bannedUserIds.add(target.userId);
+    reportModeration(socket, room, 'kick', target);
+    if (!target.socket) {
+        target.close();
+        return;
+    }
+    target.socket.emit('kicked', { roomId: room.id });
+    leaveRoom(target.socket);
+    target.socket.disconnect(true);
+}
+
+// The live microphones of everyone in the room but the given peer who has a
+// client to turn them back on. Ingests and external peers (e.g. WHIP
+// publishers) have nobody to do that, so they are left out.
+export const getMicrophonesToMute = (room, exceptPeerId) => Array.from(producers.values())
+    .filter(({ producer, socketId, roomId }) =>
+        roomId === room.id
+        && producer.kind === 'audio'
+        && !producer.paused
+        && socketId !== exceptPeerId
+        && room.peers.has(socketId)
+        && !externalPeers.has(socketId));
+
+// Hosts: pause every microphone in the room but their own. Only the owners
+// can turn them back on, see getMicrophonesToMute.
+export const muteAll = async (socket) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+
+    const microphones = getMicrophonesToMute(room, getPeerId(socket));
+    await Promise.all(microphones.map(({ producer }) => setProducerPaused(socket, producer.id, true)));
+
+    reportModeration(socket, room, 'muteAll');
+    return microphones.length;
+}
+
+// Hosts: close someone's camera, and their screen share with it. Unlike a
+// pause, they have to start sending again themselves.
+export const stopVideo = (socket, peerId) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    const target = getModerationTarget(socket, room, peerId);
+
+    const videoProducerIds = Array.from(producers.entries())
+        .filter(([, { producer, socketId }]) => socketId === peerId && producer.kind === 'video')
+        .map(([producerId]) => producerId);
+    if (videoProducerIds.length === 0) {
+        throw new RequestError('NO_MEDIA', 'That peer is not sending any video');
+    }
+
+    // The owner hears about it from the moderation event. An external peer's
+    // producers are forgotten once they close, see addExternalProducer.
+    videoProducerIds.forEach(producerId => target.socket
+        ? removeProducer(target.socket, producerId)
+        : producers.get(producerId).producer.close());
+    reportModeration(socket, room, 'stopVideo', target);
+}
+
+const setPeerRole = (room, socket, role) => {
+    room.peers.get(getPeerId(socket)).role = role;
+    socket.data.role = role;
+    socket.nsp.to(room.id).emit('peerRoleChanged', { socketId: getPeerId(socket), role });
+}
+
+// Hosts: make someone else the host and become a speaker. This lasts for
+// the session, a token for a host still joins as one.
+export const transferHost = (socket, peerId) => {
+    assertAllowed(socket, 'moderate');
+    const room = getSocketRoom(socket);
+    const target = getModerationTarget(socket, room, peerId);
+    if (!target.socket) {
+        throw new RequestError('INVALID_PAYLOAD', 'Only someone connected to the room can host it');
+    }
+
+    setPeerRole(room, target.socket, 'host');
+    setPeerRole(room, socket, 'speaker');
+    reportModeration(socket, room, 'transferHost', target);
+}
+
+// Hosts: record every producer in the room to disk, one file per participant
+export const startRoomRecording = async (socket) => {
+    assertAllowed(socket, 'record');
+    const room = getSocketRoom(socket);
+
+    const roomProducers = Array.from(producers.values())
+        .filter(p => p.roomId === room.id)
+        .map(({ producer, socketId }) => ({ producer, socketId }));
+
+    return startRecording(room, roomProducers, socket.data.user.userId);
+}
+
+export const stopRoomRecording = async (socket) => {
+    assertAllowed(socket, 'record');
+    return stopRecording(getSocketRoom(socket));
+}
+
+// The broadcaster an egress sends out: the peer asked for, else the first
+// host sending media, else anyone sending media. Screen shares stay out.
+export const getBroadcaster = (room, socketId) => {
+    const bySocket = new Map();
+    producers.forEach((producerData) => {
+        const { producer, socketId: owner, roomId } = producerData;
+        if (roomId === room.id && producer.appData.source !== 'screen') {
+            bySocket.set(owner, [...(bySocket.get(owner) ?? []), producerData]);
+        }
+    });
+
+    const candidates = socketId
+        ? [socketId]
+        : [...bySocket.keys()].sort((a, b) =>
+            Number(room.peers.get(b)?.role === 'host') - Number(room.peers.get(a)?.role === 'host'));
+    const chosen = candidates.find(id => bySocket.has(id));
+    if (!chosen) {
+        throw new RequestError('NO_MEDIA', socketId ? 'That peer is not sending any media' : 'Nobody is sending any media');
+    }
+
+    const chosenProducers = bySocket.get(chosen);
+    return {
+        socketId: chosen,
+        displayName: chosenProducers[0].displayName ?? getPeerName(room.id, chosen),
+        producers: chosenProducers.map(({ producer }) => producer)
+    };
+}
+
+// Hosts: push the room's broadcaster to RTMP or HLS
+export const startRoomEgress = async (socket, { type, url, socketId }) => {
+    assertAllowed(socket, 'egress');
+    const room = getSocketRoom(socket);
+    return startEgress(room, getBroadcaster(room, socketId), { type, url });
+}
+
+export const stopRoomEgress = async (socket, egressId) => {
+    assertAllowed(socket, 'egress');
+    if (getEgress(egressId)?.roomId !== socket.data.roomId) {
+        throw new RequestError('EGRESS_NOT_FOUND', 'Egress not found');
+    }
+    return stopEgress(egressId);
+}
+
+// Anyone in the room may list outputs, e.g. to find the HLS playlist
+export const listRoomEgress = (socket) => {
+    assertAllowed(socket, 'consume');
+    return listEgress(getSocketRoom(socket).id);
+}
+
+// Hosts: let an external encoder push a feed into the room
+export const createRoomIngest = async (socket, { displayName }) => {
+    assertAllowed(socket, 'ingest');
+    const room = getSocketRoom(socket);
+    return createIngest(
+        room,
+        { displayName: displayName?.trim() || 'Studio feed' },
+        (producer, peer) => addExternalProducer(room, producer, peer)
+    );
+}
+
+export const closeRoomIngest = (socket, ingestId) => {
+    assertAllowed(socket, 'ingest');
+    const ingest = getIngest(ingestId);
+    if (!ingest || ingest.roomId !== socket.data.roomId) {
+        throw new RequestError('INGEST_NOT_FOUND', 'Ingest not found');
+    }
+    return closeIngest(ingestId);
+}
+
+// The connection details include where to send to, so only hosts see them
+export const listRoomIngests = (socket) => {
+    assertAllowed(socket, 'ingest');
+    return listIngests(getSocketRoom(socket).id);
+}
+
+// Forget the media state of a room whose router was replaced. It was all
+// created on the old router and closed together with it.
+export const resetRoomMedia = (room) => {
+    for (const socketId of room.peers.keys()) {
+        transports.delete(`${socketId}-producer`);
+        transports.delete(`${socketId}-consumer`);
+    }
+
+    producers.forEach((producerData, producerId) => {
+        if (producerData.roomId === room.id) {
+            producers.delete(producerId);
+        }
+    });
+
+    consumers.forEach((consumerData, consumerId) => {
+        if (consumerData.roomId === room.id) {
+            consumers.delete(consumerId);
+        }
+    });
+}
+
+// Close everything the socket owns and leave its room
+export const leaveRoom = (socket) => {
+    leaveLobby(socket);
+
+    const roomId = socket.data.roomId;
+    // Never joined, or its session went to another socket
+    if (!roomId) {
+        return;
+    }
+    const peerId = getPeerId(socket);
+
+    // Clean up transports
+    for (const direction of ['producer', 'consumer']) {
+        const transport = transports.get(`${peerId}-${direction}`);
+        if (transport) {
+            transport.close();
+            transports.delete(`${peerId}-${direction}`);
+        }
+    }
+
+    // Clean up producers
+    producers.forEach((producerData, producerId) => {
+        if (producerData.socketId === peerId) {
+            removeProducer(socket, producerId);
+        }
+    });
+
+    // Clean up consumers
+    consumers.forEach((consumerData, consumerId) => {
+        if (consumerData.socketId === peerId) {
+            consumerData.consumer.close();
+            consumers.delete(consumerId);
+        }
+    });
+
+    endSession(socket);
+    socket.to(roomId).emit('peer-disconnected', { socketId: peerId });
+    socket.leave(roomId);
+    peerEvents.emit('peerLeft', roomId, peerId);
+    removePeer(roomId, peerId);
+    delete socket.data.roomId;
+    delete socket.data.role;
+}
+
+// Everyone still in a room that was deleted leaves it, including peers
+// waiting to resume after their connection dropped. Nobody waiting in the
+// lobby will be let in anymore.
+export const leaveClosedRoom = (room) => {
+    room.waiting.forEach(({ socket, onDenied }) => {
+        delete socket.data.lobbyRoomId;
+        socket.emit('roomClosed', { roomId: room.id });
+        onDenied?.();
+    });
+    room.waiting.clear();
+    getRoomSessionSockets(room.id).forEach(socket => leaveRoom(socket));
+}
+
+// A connection that dropped keeps the peer's media for a grace period, so
+// the client can come back with resumeSession. A client that disconnected
+// on purpose, or was replaced by its resumed socket, is done right away.
+export const disconnectPeer = (socket, reason) => {
+    const deliberate = reason === 'client namespace disconnect' || reason === 'server namespace disconnect';
+    if (!deliberate && suspendSession(socket, () => leaveRoom(socket))) {
+        console.log(`Keeping the media of ${getPeerId(socket)} until it resumes`);
+        return;
+    }
+    leaveRoom(socket);
+}
+
+// Take over the session of a socket whose connection dropped: the peer id,
+// room, transports, producers and consumers all carry over. The client gets
+// back what is still alive on the server, so it can drop whatever is not.
+/** @returns {import('shared').ResumeSessionResult} */
+export const resumeSession = (socket, { sessionId }) => {
+    if (socket.data.roomId) {
+        throw new RequestError('ALREADY_IN_ROOM', `Already in room ${socket.data.roomId}`);
+    }
+
+    // Kicked while the connection was down, e.g. from another tab
+    assertNotBanned(getRoom(getSessionRoomId(sessionId)), socket.data.user);
+
+    const previous = takeOverSession(socket, sessionId);
+    const { roomId, peerId, role, maxBitrate, rtpCapabilities } = previous.data;
+
+    Object.assign(socket.data, { roomId, peerId, role, maxBitrate, rtpCapabilities });
+    socket.join(roomId);
+    socket.join(peerId);
+
+    // The old socket may not have noticed it is gone yet
+    delete previous.data.roomId;
+    previous.disconnect(true);
+
+    console.log(`${socket.id} resumed the session of ${peerId} in room ${roomId}`);
+    return {
+        roomId,
+        peerId,
+        transports: ['producer', 'consumer'].filter(direction => transports.has(`${peerId}-${direction}`)),
+        producerIds: Array.from(producers.entries())
+            .filter(([, producerData]) => producerData.socketId === peerId)
+            .map(([producerId]) => producerId),
+        consumerIds: Array.from(consumers.entries())
+            .filter(([, consumerData]) => consumerData.socketId === peerId)
+            .map(([consumerId]) => consumerId),
+        recording: getRecording(roomId)
+    };
+}
+
+// New ICE credentials for one of the socket's transports, after its
+// connection to us failed (e.g. the network changed)
+export const restartIce = async (socket, transportId) => {
+    const direction = getTransportDirection(socket, transportId);
+    return transports.get(`${getPeerId(socket)}-${direction}`).restartIce();
+}
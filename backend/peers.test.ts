@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { Room } from './types.js';
+
+// The store is picked from the config when it is first imported
+process.env.STORE = 'memory';
+const { addPeer } = await import('./rooms.js');
+const { addExternalPeer, addExternalProducer, getMicrophonesToMute } = await import('./peers.js');
+
+// What openRoom makes, without a worker and router behind it
+const observer = { addProducer: async () => {} };
+const room = {
+    id: 'peers-room',
+    peers: new Map(),
+    waiting: new Map(),
+    bannedUserIds: new Set(),
+    maxParticipants: 10,
+    maxProducers: null,
+    locked: false,
+    lobby: false,
+    password: null,
+    audioLevelObserver: observer,
+    activeSpeakerObserver: observer,
+    viewerRouters: [],
+    pendingViewerRouter: null
+} as unknown as Room;
+
+let producerCount = 0;
+const microphone = () => ({
+    id: `producer-${producerCount++}`,
+    kind: 'audio',
+    paused: false,
+    appData: { source: 'mic' },
+    observer: new EventEmitter()
+});
+
+test('mutes everyone with a client but the host, and leaves external sources alone', async () => {
+    addPeer(room, 'host-1', 'Host', 'host');
+    addPeer(room, 'peer-1', 'Ada', 'speaker');
+    await addExternalPeer(room, {
+        peerId: 'whip-1',
+        user: { userId: 'user-whip', displayName: 'Encoder', roomId: room.id, role: 'speaker' },
+        displayName: 'Encoder',
+        close: () => {}
+    });
+
+    // Owned by peers in the room, as if they had produced over their socket
+    const hostMic = microphone();
+    const peerMic = microphone();
+    await addExternalProducer(room, hostMic, { peerId: 'host-1', displayName: 'Host' });
+    await addExternalProducer(room, peerMic, { peerId: 'peer-1', displayName: 'Ada' });
+    // A WHIP publisher and an ingest, nobody could unmute these
+    await addExternalProducer(room, microphone(), { peerId: 'whip-1', displayName: 'Encoder' });
+    await addExternalProducer(room, microphone(), { peerId: 'ingest-1', displayName: 'Ingest' });
+
+    const muted = getMicrophonesToMute(room, 'host-1').map(({ producer }) => producer.id);
+    assert.deepEqual(muted, [peerMic.id]);
+
+    peerMic.paused = true;
+    assert.deepEqual(getMicrophonesToMute(room, 'host-1'), []);
+});
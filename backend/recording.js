@@ -0,0 +1,236 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { mkdir, writeFile } from 'fs/promises';
+import { RequestError } from 'shared';
+import {
+    createRtpStreams,
+    closeRtpStreams,
+    resumeRtpStreams,
+    getVideoCodec,
+    startFfmpeg,
+    stopFfmpeg
+} from './rtpSink.js';
+
+// Where recordings go, one directory per recording
+const RECORDINGS_DIR = path.resolve(process.env.RECORDINGS_DIR || 'recordings');
+
+// Emits 'started' and 'stopped' with the room and the recording's description
+export const recordingEvents = new EventEmitter();
+
+const recordings = new Map(); // roomId -> recording in progress
+
+const toFileName = (value) => String(value).replace(/[^a-z0-9_-]+/gi, '_');
+
+// Everyone's camera and mic go in one file per participant, a screen share in another
+const getParticipantKey = (socketId, source) => source === 'screen' ? `${socketId}-screen` : socketId;
+
+const isActive = (recording) => recordings.get(recording.roomId) === recording;
+
+// Run segment changes for a recording one at a time
+const enqueue = (recording, task) => {
+    recording.queue = recording.queue.then(task).catch((error) => {
+        console.error(`Recording ${recording.id} error:`, error);
+    });
+    return recording.queue;
+}
+
+// Start writing a participant's current producers to a new file
+const startSegment = async (recording, participant) => {
+    const streams = await createRtpStreams(recording.router, participant.producers);
+    let ffmpeg = null;
+
+    try {
+        // VP8 and VP9 go in WebM, H264 only fits in Matroska
+        const extension = getVideoCodec(streams) === 'video/h264' ? 'mkv' : 'webm';
+        const file = `${toFileName(participant.displayName)}-${toFileName(participant.key)}-${Date.now()}.${extension}`;
+
+        ffmpeg = await startFfmpeg(streams, ['-map', '0', '-c', 'copy', '-y', path.join(recording.dir, file)], file);
+        const entry = {
+            file,
+            socketId: participant.socketId,
+            displayName: participant.displayName,
+            source: participant.source,
+            producers: participant.producers.map(producer => ({ producerId: producer.id, kind: producer.kind })),
+            startedAt: new Date().toISOString(),
+            stoppedAt: null
+        };
+        recording.files.push(entry);
+        participant.segment = { streams, ffmpeg, entry };
+
+        await resumeRtpStreams(streams);
+        if (ffmpeg.exitCode !== null || ffmpeg.signalCode !== null) {
+            throw new Error(`ffmpeg exited while starting ${file}`);
+        }
+        // Nothing more gets written once ffmpeg is gone, so the recording ends.
+        // A segment stopped on purpose is no longer the participant's.
+        ffmpeg.once('exit', (code, signal) => {
+            if (participant.segment?.ffmpeg === ffmpeg && isActive(recording)) {
+                console.error(`ffmpeg for ${file} exited (${code ?? signal}), stopping recording ${recording.id}`);
+                stopRecording(recording.room).catch((error) => console.error(`Error stopping recording ${recording.id}:`, error));
+            }
+        });
+        console.log(`Recording ${participant.displayName} to ${file}`);
+    } catch (error) {
+        ffmpeg?.kill('SIGKILL');
+        closeRtpStreams(streams);
+        participant.segment = null;
+        throw error;
+    }
+}
+
+const stopSegment = async (participant) => {
+    const segment = participant.segment;
+    if (!segment) {
+        return;
+    }
+    participant.segment = null;
+
+    closeRtpStreams(segment.streams);
+    await stopFfmpeg(segment.ffmpeg);
+    segment.entry.stoppedAt = new Date().toISOString();
+}
+
+// A participant's producers changed, so their current file ends and a new one starts
+const restartSegment = async (recording, participant) => {
+    await stopSegment(participant);
+    if (isActive(recording) && participant.producers.length > 0) {
+        await startSegment(recording, participant);
+    }
+    await writeManifest(recording);
+}
+
+const writeManifest = (recording) => writeFile(
+    path.join(recording.dir, 'manifest.json'),
+    JSON.stringify({
+        recordingId: recording.id,
+        roomId: recording.roomId,
+        startedBy: recording.startedBy,
+        startedAt: recording.startedAt,
+        stoppedAt: recording.stoppedAt,
+        files: recording.files
+    }, null, 2)
+);
+
+const describeRecording = (recording) => ({
+    recordingId: recording.id,
+    roomId: recording.roomId,
+    startedAt: recording.startedAt
+});
+
+// Follow a producer for the rest of the recording
+const addProducer = (recording, room, producer, socketId) => {
+    const source = producer.appData.source;
+    const key = getParticipantKey(socketId, source);
+
+    let participant = recording.participants.get(key);
+    if (!participant) {
+        participant = {
+            key,
+            socketId,
+            displayName: room.peers.get(socketId)?.displayName ?? socketId,
+            source: source === 'screen' ? 'screen' : 'camera',
+            producers: [],
+            segment: null
+        };
+        recording.participants.set(key, participant);
+    }
+    participant.producers.push(producer);
+
+    producer.observer.once('close', () => {
+        participant.producers = participant.producers.filter(p => p !== producer);
+        if (isActive(recording)) {
+            enqueue(recording, () => restartSegment(recording, participant));
+        }
+    });
+
+    return participant;
+}
+
+export const getRecording = (roomId) => {
+    const recording = recordings.get(roomId);
+    return recording ? describeRecording(recording) : null;
+}
+
+// Record every producer in the room, and any that start later.
+// producers is a list of { producer, socketId }.
+export const startRecording = async (room, producers, startedBy) => {
+    if (recordings.has(room.id)) {
+        throw new RequestError('ALREADY_RECORDING', 'Room is already being recorded');
+    }
+
+    const startedAt = new Date().toISOString();
+    const id = `${toFileName(room.id)}-${startedAt.replace(/[:.]/g, '-')}`;
+    const recording = {
+        id,
+        roomId: room.id,
+        room,
+        dir: path.join(RECORDINGS_DIR, id),
+        router: room.router,
+        startedBy,
+        startedAt,
+        stoppedAt: null,
+        participants: new Map(),
+        files: [],
+        queue: Promise.resolve()
+    };
+    recordings.set(room.id, recording);
+
+    try {
+        await mkdir(recording.dir, { recursive: true });
+
+        const participants = new Set(producers.map(({ producer, socketId }) => addProducer(recording, room, producer, socketId)));
+        for (const participant of participants) {
+            await startSegment(recording, participant);
+        }
+        await writeManifest(recording);
+    } catch (error) {
+        recordings.delete(room.id);
+        await finishRecording(recording).catch(() => {});
+        throw error;
+    }
+
+    // Everything recorded lived on this router, a migrated room starts over
+    recording.router.observer.once('close', () => {
+        if (isActive(recording)) {
+            stopRecording(room).catch((error) => console.error(`Error stopping recording ${id}:`, error));
+        }
+    });
+
+    console.log(`Recording ${id} started in room ${room.id}`);
+    recordingEvents.emit('started', room, describeRecording(recording));
+    return describeRecording(recording);
+}
+
+// Add a producer that started while the room is being recorded
+export const recordProducer = async (room, producer, socketId) => {
+    const recording = recordings.get(room.id);
+    if (!recording) {
+        return;
+    }
+
+    const participant = addProducer(recording, room, producer, socketId);
+    await enqueue(recording, () => restartSegment(recording, participant));
+}
+
+// Close every file and write the final manifest
+const finishRecording = async (recording) => {
+    await recording.queue;
+    await Promise.all(Array.from(recording.participants.values()).map(stopSegment));
+    recording.stoppedAt = new Date().toISOString();
+    await writeManifest(recording);
+}
+
+export const stopRecording = async (room) => {
+    const recording = recordings.get(room.id);
+    if (!recording) {
+        throw new RequestError('NOT_RECORDING', 'Room is not being recorded');
+    }
+    recordings.delete(room.id);
+
+    await finishRecording(recording);
+
+    console.log(`Recording ${recording.id} stopped, files in ${recording.dir}`);
+    const description = { ...describeRecording(recording), stoppedAt: recording.stoppedAt };
+    recordingEvents.emit('stopped', room, description);
+    return description;
+}
@@ -0,0 +1,199 @@
+import {
+    RequestError,
+    parsePayload,
+    produceSchema,
+    produceDataSchema,
+    chatMessageSchema,
+    consumerSchema,
+    producerSchema,
+    protocolJoinRoomSchema,
+    protocolCreateTransportSchema,
+    protocolConnectTransportSchema,
+    protocolCreateConsumerSchema
+} from 'shared';
+import type { PeerInfo } from 'shared';
+import {
+    getSocketRoom,
+    joinRoom,
+    createTransport,
+    getTransportDirection,
+    connectTransport,
+    produce,
+    consume,
+    produceData,
+    consumeData,
+    sendChatMessage,
+    getChatHistory,
+    resumeConsumer,
+    closeProducer,
+    listProducers,
+    leaveRoom
+} from './peers.js';
+import { toAckError } from './acks.js';
+import type { AppSocket } from './types.js';
+
+// Kebab-case room protocol spoken by useMediaSoup. Requests carry no acks,
+// every reply is a follow-up event and failures are reported on 'error'.
+export const registerRoomProtocol = (socket: AppSocket) => {
+    const fail = (event: string, error: unknown) => {
+        console.error(`Error handling ${event}:`, error);
+        socket.emit('error', { event, ...toAckError(error) });
+    };
+
+    // Hand out the peers already in the room and the router capabilities
+    const announceRoom = (peers: PeerInfo[]) => {
+        socket.emit('existing-peers', peers.map(peer => ({
+            socketId: peer.socketId,
+            name: peer.displayName
+        })));
+        socket.emit('router-rtp-capabilities', getSocketRoom(socket).router.rtpCapabilities);
+    };
+
+    // Join a room, or wait in its lobby until a host admits us
+    socket.on('join-room', async (payload) => {
+        try {
+            const { roomId, name, password } = parsePayload(protocolJoinRoomSchema, payload);
+            const { result } = await joinRoom(socket, { roomId, displayName: name, password }, {
+                onAdmitted: (joined) => announceRoom(joined.peers),
+                onDenied: () => fail('join-room', new RequestError('ADMISSION_DENIED', `Not admitted to room ${roomId}`))
+            });
+
+            if (result.admitted) {
+                announceRoom(result.peers);
+            } else {
+                socket.emit('lobby-waiting', { roomId });
+            }
+        } catch (error) {
+            fail('join-room', error);
+        }
+    });
+
+    // Create a send or recv transport
+    socket.on('create-transport', async (payload) => {
+        try {
+            const { direction } = parsePayload(protocolCreateTransportSchema, payload);
+            const params = await createTransport(socket, direction === 'send' ? 'producer' : 'consumer');
+
+            socket.emit('transport-created', { transportId: params.id, params, direction });
+        } catch (error) {
+            fail('create-transport', error);
+        }
+    });
+
+    // Connect either transport by its id
+    socket.on('connect-transport', async (payload) => {
+        try {
+            const { transportId, dtlsParameters } = parsePayload(protocolConnectTransportSchema, payload);
+            await connectTransport(socket, getTransportDirection(socket, transportId), dtlsParameters);
+
+            socket.emit('transport-connected', { transportId });
+        } catch (error) {
+            fail('connect-transport', error);
+        }
+    });
+
+    socket.on('create-producer', async (payload) => {
+        try {
+            const { kind, rtpParameters, appData } = parsePayload(produceSchema, payload);
+            const producer = await produce(socket, { kind, rtpParameters, appData });
+
+            socket.emit('producer-created', { producerId: producer.id });
+        } catch (error) {
+            fail('create-producer', error);
+        }
+    });
+
+    // The client sends its capabilities along, there is no setRtpCapabilities here
+    socket.on('create-consumer', async (payload) => {
+        try {
+            const { producerId, rtpCapabilities } = parsePayload(protocolCreateConsumerSchema, payload);
+            socket.data.rtpCapabilities = rtpCapabilities;
+            const { consumer, source } = await consume(socket, producerId);
+
+            socket.emit('consumer-created', {
+                consumerId: consumer.id,
+                producerId,
+                kind: consumer.kind,
+                rtpParameters: consumer.rtpParameters,
+                peerId: source.socketId,
+                peerName: source.displayName,
+                appData: source.appData
+            });
+        } catch (error) {
+            fail('create-consumer', error);
+        }
+    });
+
+    socket.on('resume-consumer', async (payload) => {
+        try {
+            const { consumerId } = parsePayload(consumerSchema, payload);
+            await resumeConsumer(socket, consumerId);
+
+            socket.emit('consumer-resumed', { consumerId });
+        } catch (error) {
+            fail('resume-consumer', error);
+        }
+    });
+
+    socket.on('close-producer', (payload) => {
+        try {
+            const { producerId } = parsePayload(producerSchema, payload);
+            closeProducer(socket, producerId);
+
+            socket.emit('producer-closed', { producerId });
+        } catch (error) {
+            fail('close-producer', error);
+        }
+    });
+
+    socket.on('get-producers', () => {
+        try {
+            getSocketRoom(socket);
+
+            socket.emit('existing-producers', listProducers(socket).map(producer => ({
+                producerId: producer.producerId,
+                peerId: producer.socketId,
+                peerName: producer.displayName,
+                kind: producer.kind,
+                appData: producer.appData,
+                paused: producer.paused
+            })));
+            socket.emit('chatHistory', getChatHistory(socket));
+        } catch (error) {
+            fail('get-producers', error);
+        }
+    });
+
+    socket.on('produce-data', async (payload) => {
+        try {
+            const { sctpStreamParameters, label, protocol } = parsePayload(produceDataSchema, payload);
+            const dataProducer = await produceData(socket, { sctpStreamParameters, label, protocol });
+
+            socket.emit('data-producer-created', { dataProducerId: dataProducer.id });
+        } catch (error) {
+            fail('produce-data', error);
+        }
+    });
+
+    socket.on('consume-data', async () => {
+        try {
+            socket.emit('data-consumer-created', await consumeData(socket));
+        } catch (error) {
+            fail('consume-data', error);
+        }
+    });
+
+    socket.on('send-chat-message', async (payload) => {
+        try {
+            const { text } = parsePayload(chatMessageSchema, payload);
+            await sendChatMessage(socket, text);
+        } catch (error) {
+            fail('send-chat-message', error);
+        }
+    });
+
+    // Leave the room but keep the socket for joining another one
+    socket.on('leave-room', () => {
+        leaveRoom(socket);
+    });
+}
@@ -0,0 +1,201 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { promisify } from 'util';
+import { RequestError } from 'shared';
+import { createRouter, getLeastLoadedWorker, workerEvents } from './mediasoup.js';
+import { getRoomRouters, closeViewerRouters } from './fanout.js';
+import { addSpeakerObservers } from './speakers.js';
+import { loadChatHistory } from './chat.js';
+
+const rooms = new Map(); // roomId -> { id, name, limits, worker, router, viewerRouters, chatHistory, peers, waiting }
+const pendingRooms = new Map(); // roomId -> Promise resolving to the room being created
+
+// Limits of rooms created by joining them, rather than over HTTP
+const MAX_PEERS_PER_ROOM = Number(process.env.MAX_PEERS_PER_ROOM) || 50;
+
+// How long a room may stay empty before its routers are closed
+const ROOM_IDLE_TIMEOUT = (Number(process.env.ROOM_IDLE_MINUTES) || 5) * 60 * 1000;
+
+const scrypt = promisify(crypto.scrypt);
+
+// Emits 'created', 'updated' (locked or unlocked) and 'closed' with the
+// room, and 'migrated' with the room once it has a fresh router on a live worker
+export const roomEvents = new EventEmitter();
+
+export const getRoom = (roomId) => rooms.get(roomId);
+
+export const listRooms = () => Array.from(rooms.values());
+
+export const describeRoom = (room) => ({
+    roomId: room.id,
+    name: room.name,
+    maxParticipants: room.maxParticipants,
+    maxProducers: room.maxProducers,
+    locked: room.locked,
+    lobby: room.lobby,
+    hasPassword: Boolean(room.password),
+    participants: room.peers.size
+});
+
+const hashPassword = async (password, salt = crypto.randomBytes(16)) => ({
+    salt,
+    hash: await scrypt(password, salt, 32)
+});
+
+// Whether a password gets into the room, always when it has none
+export const checkRoomPassword = async (room, password) => {
+    if (!room.password) {
+        return true;
+    }
+    if (typeof password !== 'string') {
+        return false;
+    }
+    const { hash } = await hashPassword(password, room.password.salt);
+    return crypto.timingSafeEqual(hash, room.password.hash);
+}
+
+const closeRoom = (room) => {
+    clearTimeout(room.idleTimer);
+    closeViewerRouters(room);
+    room.router.close();
+    rooms.delete(room.id);
+    console.log(`Room closed: ${room.id}`);
+    roomEvents.emit('closed', room);
+}
+
+// Close the room once it has been empty for a while
+const closeWhenIdle = (room) => {
+    clearTimeout(room.idleTimer);
+    room.idleTimer = setTimeout(() => {
+        if (room.peers.size === 0 && rooms.get(room.id) === room) {
+            closeRoom(room);
+        }
+    }, ROOM_IDLE_TIMEOUT);
+}
+
+// Create a room (and its router). Two sockets joining at the same time must
+// end up on the same router, so both wait for the same room.
+const openRoom = (roomId, { name, maxParticipants, maxProducers, password, locked, lobby } = {}) => {
+    if (!pendingRooms.has(roomId)) {
+        pendingRooms.set(roomId, (async () => {
+            try {
+                const worker = await getLeastLoadedWorker();
+                const router = await createRouter(worker);
+                const chatHistory = await loadChatHistory(roomId);
+                const room = {
+                    id: roomId,
+                    name: name ?? roomId,
+                    maxParticipants: maxParticipants ?? MAX_PEERS_PER_ROOM,
+                    maxProducers: maxProducers ?? null,
+                    locked: locked ?? false,
+                    // Whether everyone but hosts waits until a host admits them
+                    lobby: lobby ?? false,
+                    password: password ? await hashPassword(password) : null,
+                    idleTimer: null,
+                    worker,
+                    router,
+                    viewerRouters: [],
+                    pendingViewerRouter: null,
+                    audioLevelObserver: null,
+                    activeSpeakerObserver: null,
+                    chatHistory,
+                    peers: new Map(),
+                    waiting: new Map(), // socketId -> lobby request, see peers.js
+                    bannedUserIds: new Set() // users a host kicked, kept out until the room closes
+                };
+                await addSpeakerObservers(room);
+                rooms.set(roomId, room);
+                closeWhenIdle(room);
+                console.log(`Room created: ${roomId}`);
+                roomEvents.emit('created', room);
+                return room;
+            } finally {
+                pendingRooms.delete(roomId);
+            }
+        })());
+    }
+
+    return pendingRooms.get(roomId);
+}
+
+// Create a room ahead of time, with its own limits
+export const createRoom = async (roomId, settings) => {
+    if (rooms.has(roomId) || pendingRooms.has(roomId)) {
+        throw new RequestError('ROOM_EXISTS', `Room ${roomId} already exists`);
+    }
+    return openRoom(roomId, settings);
+}
+
+// Create the room on first join if nobody created it, reuse it afterwards
+export const getOrCreateRoom = async (roomId) => rooms.get(roomId) ?? openRoom(roomId);
+
+// Close a room right away, with whoever is still in it
+export const deleteRoom = (roomId) => {
+    const room = rooms.get(roomId);
+    if (!room) {
+        throw new RequestError('ROOM_NOT_FOUND', `Room ${roomId} not found`);
+    }
+    closeRoom(room);
+    return room;
+}
+
+export const setRoomLocked = (room, locked) => {
+    room.locked = locked;
+    console.log(`Room ${room.id} ${locked ? 'locked' : 'unlocked'}`);
+    roomEvents.emit('updated', room);
+}
+
+export const addPeer = (room, socketId, displayName, role) => {
+    clearTimeout(room.idleTimer);
+    room.peers.set(socketId, { socketId, displayName, role });
+}
+
+// Remove a peer, the room closes once it stayed empty for a while
+export const removePeer = (roomId, socketId) => {
+    const room = rooms.get(roomId);
+    if (!room) {
+        return;
+    }
+
+    room.peers.delete(socketId);
+
+    if (room.peers.size === 0) {
+        closeWhenIdle(room);
+    }
+}
+
+// Move a room that had a router on a dead worker onto a new origin router.
+// Everything created on the old routers is gone, so peers have to rebuild
+// their transports.
+const restartRoom = async (room) => {
+    try {
+        closeViewerRouters(room);
+        room.router.close();
+
+        const worker = await getLeastLoadedWorker();
+        const router = await createRouter(worker);
+
+        // The room may have emptied out while we were waiting
+        if (rooms.get(room.id) !== room) {
+            router.close();
+            return;
+        }
+
+        room.worker = worker;
+        room.router = router;
+        await addSpeakerObservers(room);
+
+        console.log(`Room ${room.id} migrated to worker ${worker.pid}`);
+        roomEvents.emit('migrated', room);
+    } catch (error) {
+        console.error(`Error migrating room ${room.id}:`, error);
+    }
+}
+
+workerEvents.on('died', (worker) => {
+    rooms.forEach((room) => {
+        if (getRoomRouters(room).some(entry => entry.worker === worker)) {
+            restartRoom(room);
+        }
+    });
+});
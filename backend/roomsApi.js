@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import express from 'express';
+import { createRoomSchema, parsePayload, RequestError } from 'shared';
+import { createRoom, deleteRoom, describeRoom } from './rooms.js';
+import { store } from './store.js';
+import { authenticateRequest, canJoinRoom, isAllowed } from './auth.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const ERROR_STATUS = {
+    INVALID_PAYLOAD: 400,
+    ROOM_EXISTS: 409,
+    ROOM_NOT_FOUND: 404
+};
+
+// HTTP API for rooms. Hosts create rooms ahead of time, with limits, a
+// password or locked, and delete them. Rooms also come and go by themselves,
+// see rooms.js. Their history is kept in the store.
+//   POST   /rooms                               { roomId?, name?, maxParticipants?, maxProducers?, password?, locked?, lobby? }
+//   DELETE /rooms/:roomId                       close the room and send everyone out
+//   GET    /rooms/:roomId/history?before=&limit=   the room, a page of chat before a time, its recordings
+//   GET    /rooms/:roomId/participants          who joined and left, for hosts
+//   GET    /rooms/:roomId/moderation            who kicked, muted, stopped or handed over host, for hosts
+export const roomsRouter = express.Router();
+
+roomsRouter.use(express.json());
+roomsRouter.use(authenticateRequest);
+
+const sendError = (res, action, error) => {
+    const status = error instanceof RequestError ? ERROR_STATUS[error.code] : undefined;
+    if (!status) {
+        console.error(`Error ${action}:`, error);
+    }
+    res.status(status ?? 500).json({ error: error.message, code: error instanceof RequestError ? error.code : 'REQUEST_FAILED' });
+}
+
+roomsRouter.post('/', async (req, res) => {
+    try {
+        const { roomId = crypto.randomUUID(), ...settings } = parsePayload(createRoomSchema, req.body ?? {});
+        if (!canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, 'moderate')) {
+            return res.status(403).json({ error: 'Forbidden: only hosts of this room can create it' });
+        }
+
+        res.status(201).json(describeRoom(await createRoom(roomId, settings)));
+    } catch (error) {
+        sendError(res, 'creating room', error);
+    }
+});
+
+roomsRouter.delete('/:roomId', (req, res) => {
+    const { roomId } = req.params;
+    if (!canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, 'moderate')) {
+        return res.status(403).json({ error: 'Forbidden: only hosts of this room can delete it' });
+    }
+
+    try {
+        res.json(describeRoom(deleteRoom(roomId)));
+    } catch (error) {
+        sendError(res, 'deleting room', error);
+    }
+});
+
+roomsRouter.get('/:roomId/history', async (req, res) => {
+    const { roomId } = req.params;
+    if (!canJoinRoom(req.user, roomId)) {
+        return res.status(403).json({ error: 'Forbidden: token is not valid for this room' });
+    }
+
+    const { before, limit } = req.query;
+    if (before !== undefined && (typeof before !== 'string' || Number.isNaN(Date.parse(before)))) {
+        return res.status(400).json({ error: 'before must be a date' });
+    }
+    const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        return res.status(400).json({ error: `limit must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+
+    try {
+        const room = await store.getRoom(roomId);
+        if (!room) {
+            return res.status(404).json({ error: 'Room not found' });
+        }
+
+        res.json({
+            room,
+            // Times are compared as ISO strings
+            messages: await store.listChatMessages(roomId, {
+                before: before && new Date(before).toISOString(),
+                limit: pageSize
+            }),
+            recordings: await store.listRecordings(roomId)
+        });
+    } catch (error) {
+        sendError(res, 'reading room history', error);
+    }
+});
+
+roomsRouter.get('/:roomId/participants', async (req, res) => {
+    const { roomId } = req.params;
+    if (!canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, 'moderate')) {
+        return res.status(403).json({ error: 'Forbidden: only hosts of this room can list its participants' });
+    }
+
+    try {
+        if (!await store.getRoom(roomId)) {
+            return res.status(404).json({ error: 'Room not found' });
+        }
+
+        res.json(await store.listParticipants(roomId));
+    } catch (error) {
+        sendError(res, 'listing room participants', error);
+    }
+});
+
+roomsRouter.get('/:roomId/moderation', async (req, res) => {
+    const { roomId } = req.params;
+    if (!canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, 'moderate')) {
+        return res.status(403).json({ error: 'Forbidden: only hosts of this room can read its moderation log' });
+    }
+
+    try {
+        if (!await store.getRoom(roomId)) {
+            return res.status(404).json({ error: 'Room not found' });
+        }
+
+        res.json(await store.listModerationActions(roomId));
+    } catch (error) {
+        sendError(res, 'listing moderation actions', error);
+    }
+});
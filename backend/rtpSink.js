@@ -0,0 +1,171 @@
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { RequestError } from 'shared';
+
+// Sending producers out of mediasoup to a local ffmpeg: each producer gets a
+// PlainTransport that pushes RTP at ffmpeg, which reads an SDP describing them.
+// Used for recording and for HLS/RTMP egress.
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// Local UDP ports ffmpeg receives RTP (even) and RTCP (odd) on
+const MIN_PORT = Number(process.env.RTP_SINK_MIN_PORT) || 20000;
+const MAX_PORT = Number(process.env.RTP_SINK_MAX_PORT) || 20999;
+
+// How long ffmpeg gets to open its ports before media starts flowing
+const FFMPEG_STARTUP_DELAY = 1000;
+// How long ffmpeg gets to finish its output before it is killed
+const FFMPEG_STOP_TIMEOUT = 5000;
+
+const takenPorts = new Set();
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A timeout that can be called off, so it does not keep the process alive
+const cancelableDelay = (ms) => {
+    let timer;
+    const promise = new Promise(resolve => {
+        timer = setTimeout(resolve, ms);
+    });
+    return { promise, cancel: () => clearTimeout(timer) };
+}
+
+// Reserve an even RTP port and the RTCP port right above it
+const takePorts = () => {
+    for (let port = MIN_PORT + (MIN_PORT % 2); port < MAX_PORT; port += 2) {
+        if (!takenPorts.has(port)) {
+            takenPorts.add(port);
+            return { rtpPort: port, rtcpPort: port + 1 };
+        }
+    }
+    throw new RequestError('UNAVAILABLE', 'No free RTP sink ports');
+}
+
+const releasePorts = ({ rtpPort }) => takenPorts.delete(rtpPort);
+
+// Close the transports (and with them the consumers) and free their ports
+export const closeRtpStreams = (streams) => {
+    streams.forEach(stream => {
+        stream.transport?.close();
+        releasePorts(stream);
+    });
+}
+
+// Consume each producer on its own PlainTransport aimed at a local port pair.
+// The consumers start paused, see resumeRtpStreams.
+export const createRtpStreams = async (router, producers) => {
+    const streams = [];
+
+    try {
+        for (const producer of producers) {
+            const stream = takePorts();
+            streams.push(stream);
+
+            // mediasoup sends to ffmpeg's ports, ffmpeg never sends back
+            stream.transport = await router.createPlainTransport({
+                listenInfo: { protocol: 'udp', ip: '127.0.0.1' },
+                rtcpMux: false,
+                comedia: false
+            });
+            await stream.transport.connect({ ip: '127.0.0.1', port: stream.rtpPort, rtcpPort: stream.rtcpPort });
+            stream.consumer = await stream.transport.consume({
+                producerId: producer.id,
+                rtpCapabilities: router.rtpCapabilities,
+                paused: true
+            });
+        }
+    } catch (error) {
+        closeRtpStreams(streams);
+        throw error;
+    }
+
+    return streams;
+}
+
+// Only send media once ffmpeg listens, starting on a key frame
+export const resumeRtpStreams = async (streams) => {
+    await delay(FFMPEG_STARTUP_DELAY);
+    for (const { consumer } of streams) {
+        await consumer.resume();
+        if (consumer.kind === 'video') {
+            await consumer.requestKeyFrame();
+        }
+    }
+}
+
+export const getVideoCodec = (streams) => {
+    const video = streams.find(({ consumer }) => consumer.kind === 'video');
+    return video?.consumer.rtpParameters.codecs[0].mimeType.toLowerCase() ?? null;
+}
+
+// Describe the RTP mediasoup sends to ffmpeg, one m-line per consumer
+export const createSdp = (streams) => {
+    const lines = [
+        'v=0',
+        'o=- 0 0 IN IP4 127.0.0.1',
+        's=mediasoup',
+        'c=IN IP4 127.0.0.1',
+        't=0 0'
+    ];
+
+    for (const { consumer, rtpPort, rtcpPort } of streams) {
+        const [codec] = consumer.rtpParameters.codecs;
+        const name = codec.mimeType.split('/')[1];
+        const channels = codec.channels > 1 ? `/${codec.channels}` : '';
+        const fmtp = Object.entries(codec.parameters ?? {}).map(([key, value]) => `${key}=${value}`).join(';');
+
+        lines.push(`m=${consumer.kind} ${rtpPort} RTP/AVP ${codec.payloadType}`);
+        lines.push(`a=rtcp:${rtcpPort}`);
+        lines.push(`a=rtpmap:${codec.payloadType} ${name}/${codec.clockRate}${channels}`);
+        if (fmtp) {
+            lines.push(`a=fmtp:${codec.payloadType} ${fmtp}`);
+        }
+        lines.push('a=recvonly');
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+// Start ffmpeg reading the streams, outputArgs say what to do with them
+export const startFfmpeg = async (streams, outputArgs, label) => {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+        '-loglevel', 'warning',
+        '-protocol_whitelist', 'pipe,udp,rtp',
+        '-fflags', '+genpts',
+        '-f', 'sdp',
+        '-i', 'pipe:0',
+        ...outputArgs
+    ]);
+
+    ffmpeg.stderr.on('data', (data) => {
+        console.log(`ffmpeg [${label}]: ${data.toString().trim()}`);
+    });
+    // Whoever started it hears about ffmpeg going away from its 'exit'
+    ffmpeg.on('error', (error) => console.error(`ffmpeg [${label}] error:`, error));
+    // ffmpeg may die before it reads the SDP
+    ffmpeg.stdin.on('error', (error) => console.error(`ffmpeg [${label}] stdin error:`, error));
+
+    // Rejects when the binary is missing or cannot be run
+    await once(ffmpeg, 'spawn');
+
+    ffmpeg.stdin.end(createSdp(streams));
+    return ffmpeg;
+}
+
+// Let ffmpeg finish its output, and kill it if it takes too long
+export const stopFfmpeg = async (ffmpeg) => {
+    if (ffmpeg.exitCode !== null || ffmpeg.signalCode !== null) {
+        return;
+    }
+
+    const exited = once(ffmpeg, 'exit');
+    ffmpeg.kill('SIGINT');
+
+    const timeout = cancelableDelay(FFMPEG_STOP_TIMEOUT);
+    const result = await Promise.race([exited, timeout.promise.then(() => 'timeout')]);
+    timeout.cancel();
+    if (result === 'timeout') {
+        console.warn(`ffmpeg ${ffmpeg.pid} did not stop in time, killing it`);
+        ffmpeg.kill('SIGKILL');
+    }
+}
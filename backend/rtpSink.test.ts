@@ -0,0 +1,125 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+
+// A stand-in for ffmpeg: it saves its arguments and the SDP it reads, then
+// runs until SIGINT, or past it when stubborn, or dies straight away
+const stubDir = await mkdtemp(path.join(tmpdir(), 'rtp-sink-'));
+const stubPath = path.join(stubDir, 'ffmpeg.cjs');
+await writeFile(stubPath, `#!/usr/bin/env node
+const mode = process.env.STUB_FFMPEG_MODE;
+if (mode === 'crash') process.exit(1);
+process.on('SIGINT', () => { if (mode !== 'stubborn') process.exit(0); });
+let sdp = '';
+process.stdin.on('data', (data) => { sdp += data; });
+process.stdin.on('end', () => {
+    require('fs').writeFileSync(process.env.STUB_FFMPEG_OUTPUT, JSON.stringify({ args: process.argv.slice(2), sdp }));
+});
+setInterval(() => {}, 1000);
+`);
+await chmod(stubPath, 0o755);
+after(() => rm(stubDir, { recursive: true, force: true }));
+
+// The ffmpeg binary is picked when the module is first imported
+process.env.FFMPEG_PATH = stubPath;
+const { createSdp, getVideoCodec, startFfmpeg, stopFfmpeg } = await import('./rtpSink.js');
+
+// What createRtpStreams returns, without a router behind it
+const stream = (kind: 'audio' | 'video', rtpPort: number, codec: object) => ({
+    rtpPort,
+    rtcpPort: rtpPort + 1,
+    consumer: { kind, rtpParameters: { codecs: [codec] } }
+});
+
+const opus = stream('audio', 20000, {
+    mimeType: 'audio/opus',
+    payloadType: 100,
+    clockRate: 48000,
+    channels: 2,
+    parameters: { useinbandfec: 1, minptime: 10 }
+});
+const vp8 = stream('video', 20002, { mimeType: 'video/VP8', payloadType: 101, clockRate: 90000 });
+
+test('describes each consumer on its own port pair', () => {
+    assert.equal(createSdp([opus, vp8]), [
+        'v=0',
+        'o=- 0 0 IN IP4 127.0.0.1',
+        's=mediasoup',
+        'c=IN IP4 127.0.0.1',
+        't=0 0',
+        'm=audio 20000 RTP/AVP 100',
+        'a=rtcp:20001',
+        'a=rtpmap:100 opus/48000/2',
+        'a=fmtp:100 useinbandfec=1;minptime=10',
+        'a=recvonly',
+        'm=video 20002 RTP/AVP 101',
+        'a=rtcp:20003',
+        'a=rtpmap:101 VP8/90000',
+        'a=recvonly',
+        ''
+    ].join('\n'));
+});
+
+test('picks the video codec for the output container', () => {
+    assert.equal(getVideoCodec([opus, vp8]), 'video/vp8');
+    assert.equal(getVideoCodec([opus]), null);
+});
+
+let runs = 0;
+
+// Start the stub, and wait for it to have read the SDP unless it crashes
+const startStub = async (mode: string, streams: ReturnType<typeof stream>[]) => {
+    const output = path.join(stubDir, `output-${runs++}.json`);
+    process.env.STUB_FFMPEG_MODE = mode;
+    process.env.STUB_FFMPEG_OUTPUT = output;
+    const ffmpeg = await startFfmpeg(streams, ['-f', 'webm', 'out.webm'], `test ${mode}`);
+
+    const read = async (): Promise<{ args: string[], sdp: string } | null> => {
+        for (let attempt = 0; attempt < 100 && mode !== 'crash'; attempt++) {
+            try {
+                return JSON.parse(await readFile(output, 'utf8'));
+            } catch {
+                await sleep(20);
+            }
+        }
+        return null;
+    };
+    return { ffmpeg, received: await read() };
+};
+
+test('starts ffmpeg on the SDP of the streams and stops it', async () => {
+    const { ffmpeg, received } = await startStub('normal', [opus, vp8]);
+    assert.equal(received?.sdp, createSdp([opus, vp8]));
+    assert.deepEqual(received?.args.slice(-5), ['-i', 'pipe:0', '-f', 'webm', 'out.webm']);
+
+    await stopFfmpeg(ffmpeg);
+    assert.equal(ffmpeg.exitCode, 0);
+    // The kill timeout is called off once ffmpeg stops
+    assert.ok(!process.getActiveResourcesInfo().includes('Timeout'));
+});
+
+test('kills ffmpeg when it does not stop in time', async () => {
+    const { ffmpeg, received } = await startStub('stubborn', [opus]);
+    assert.ok(received);
+
+    const exited = once(ffmpeg, 'exit');
+    await stopFfmpeg(ffmpeg);
+    const [code, signal] = await exited;
+    assert.equal(code, null);
+    assert.equal(signal, 'SIGKILL');
+});
+
+test('survives ffmpeg dying before it reads the SDP', async () => {
+    const { ffmpeg } = await startStub('crash', [opus, vp8]);
+    if (ffmpeg.exitCode === null) {
+        await once(ffmpeg, 'exit');
+    }
+    assert.equal(ffmpeg.exitCode, 1);
+
+    // Nothing left to stop
+    await stopFfmpeg(ffmpeg);
+});
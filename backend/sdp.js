@@ -0,0 +1,241 @@
+import { parse, write, parseParams } from 'sdp-transform';
+
+// Turning SDP offers from WHIP/WHEP clients into mediasoup parameters, and
+// mediasoup transports back into SDP answers. mediasoup itself never sees SDP.
+
+export const parseOffer = (sdp) => {
+    const offer = parse(sdp);
+    if (!Array.isArray(offer.media) || offer.media.length === 0) {
+        throw new Error('The offer has no media sections');
+    }
+    return offer;
+}
+
+// The remote side's DTLS role and certificate. An offer says actpass (or
+// active), so we answer passive and the remote end is the DTLS client.
+export const getDtlsParameters = (offer) => {
+    const media = offer.media.find(({ fingerprint }) => fingerprint) ?? offer.media[0];
+    const fingerprint = media.fingerprint ?? offer.fingerprint;
+    if (!fingerprint) {
+        throw new Error('The offer has no DTLS fingerprint');
+    }
+
+    return {
+        role: (media.setup ?? offer.setup) === 'passive' ? 'server' : 'client',
+        fingerprints: [{ algorithm: fingerprint.type, value: fingerprint.hash }]
+    };
+}
+
+const getCodecParameters = (media, payloadType) => {
+    const fmtp = media.fmtp?.find(({ payload }) => payload === payloadType);
+    return fmtp ? parseParams(fmtp.config) : {};
+}
+
+// The codecs offered in an m-section, in the offer's order of preference
+export const getOfferedCodecs = (media) => (media.rtp ?? []).map(({ payload, codec, rate, encoding }) => ({
+    kind: media.type,
+    mimeType: `${media.type}/${codec}`,
+    payloadType: payload,
+    clockRate: rate,
+    channels: media.type === 'audio' ? Number(encoding) || 1 : undefined,
+    parameters: getCodecParameters(media, payload),
+    rtcpFeedback: (media.rtcpFb ?? [])
+        .filter(fb => fb.payload === '*' || Number(fb.payload) === payload)
+        .map(fb => ({ type: fb.type, parameter: fb.subtype ?? '' }))
+}));
+
+const isRtx = (codec) => codec.mimeType.toLowerCase().endsWith('/rtx');
+
+// Close enough to mediasoup's own matching for the codecs our routers have.
+// H264 compares the profile (the first two bytes of profile-level-id), not the level.
+export const matchesCodec = (a, b) => {
+    if (a.mimeType.toLowerCase() !== b.mimeType.toLowerCase() || a.clockRate !== b.clockRate) {
+        return false;
+    }
+
+    switch (a.mimeType.toLowerCase()) {
+        case 'audio/opus':
+            return (a.channels ?? 1) === (b.channels ?? 1);
+        case 'video/h264': {
+            const profile = (codec) => String(codec.parameters?.['profile-level-id'] ?? '42001f').slice(0, 4).toLowerCase();
+            return Number(a.parameters?.['packetization-mode'] ?? 0) === Number(b.parameters?.['packetization-mode'] ?? 0)
+                && profile(a) === profile(b);
+        }
+        case 'video/vp9':
+            return Number(a.parameters?.['profile-id'] ?? 0) === Number(b.parameters?.['profile-id'] ?? 0);
+        default:
+            return true;
+    }
+}
+
+// What a WHIP client sends in a sendonly m-section: its most preferred codec
+// the router supports, plus RTX for it, keyed by SSRC or by RID for simulcast.
+// Returns null when nothing in the section can be produced.
+export const getProducerRtpParameters = (media, routerCapabilities) => {
+    const offered = getOfferedCodecs(media);
+    const codec = offered.find(candidate => !isRtx(candidate)
+        && routerCapabilities.codecs.some(supported => matchesCodec(supported, candidate)));
+    if (!codec) {
+        return null;
+    }
+    const rtx = offered.find(candidate => isRtx(candidate) && Number(candidate.parameters.apt) === codec.payloadType);
+
+    const headerExtensions = (media.ext ?? [])
+        .filter(({ uri }) => routerCapabilities.headerExtensions.some(ext => ext.kind === media.type && ext.uri === uri))
+        .map(({ value, uri }) => ({ id: value, uri }));
+
+    const ssrcs = media.ssrcs ?? [];
+    const cname = ssrcs.find(({ attribute }) => attribute === 'cname')?.value;
+    const rids = (media.rids ?? []).filter(({ direction }) => direction === 'send').map(({ id }) => String(id));
+
+    let encodings;
+    if (rids.length > 0) {
+        encodings = rids.map(rid => ({ rid }));
+    } else if (ssrcs.length > 0) {
+        const ssrc = ssrcs[0].id;
+        const fid = media.ssrcGroups?.find(({ semantics }) => semantics === 'FID');
+        const rtxSsrc = fid?.ssrcs.split(' ').map(Number).find(id => id !== ssrc);
+        encodings = [rtx && rtxSsrc ? { ssrc, rtx: { ssrc: rtxSsrc } } : { ssrc }];
+    } else {
+        // Matched on the MID header extension alone
+        encodings = [{}];
+    }
+
+    return {
+        mid: media.mid === undefined ? undefined : String(media.mid),
+        codecs: (rtx ? [codec, rtx] : [codec]).map(({ kind, ...rest }) => rest),
+        headerExtensions,
+        encodings,
+        rtcp: { cname, reducedSize: Boolean(media.rtcpRsize) }
+    };
+}
+
+// What a WHEP client can receive in a recvonly m-section, as mediasoup RTP
+// capabilities. Payload types and extension ids are the offer's own.
+export const getRemoteRtpCapabilities = (media) => ({
+    codecs: getOfferedCodecs(media).map(({ payloadType, ...codec }) => ({ ...codec, preferredPayloadType: payloadType })),
+    headerExtensions: (media.ext ?? []).map(({ value, uri }) => ({
+        kind: media.type,
+        uri,
+        preferredId: value,
+        preferredEncrypt: false,
+        direction: 'sendrecv'
+    }))
+});
+
+const toCodecLines = (codecs) => ({
+    payloads: codecs.map(({ payloadType }) => payloadType).join(' '),
+    rtp: codecs.map(({ payloadType, mimeType, clockRate, channels }) => ({
+        payload: payloadType,
+        codec: mimeType.split('/')[1],
+        rate: clockRate,
+        encoding: channels > 1 ? channels : undefined
+    })),
+    fmtp: codecs
+        .filter(({ parameters }) => Object.keys(parameters ?? {}).length > 0)
+        .map(({ payloadType, parameters }) => ({
+            payload: payloadType,
+            config: Object.entries(parameters).map(([key, value]) => `${key}=${value}`).join(';')
+        })),
+    rtcpFb: codecs.flatMap(({ payloadType, rtcpFeedback }) => (rtcpFeedback ?? []).map(({ type, parameter }) => ({
+        payload: payloadType,
+        type,
+        subtype: parameter || undefined
+    })))
+});
+
+// The SSRC lines for media we send, so the client can tell its tracks apart
+const toSsrcLines = ({ encodings, rtcp }, msid) => {
+    const [{ ssrc, rtx }] = encodings;
+    const ssrcs = [ssrc, rtx?.ssrc].filter(Boolean);
+
+    return {
+        msid,
+        ssrcs: ssrcs.flatMap(id => [
+            { id, attribute: 'cname', value: rtcp.cname },
+            { id, attribute: 'msid', value: msid }
+        ]),
+        ssrcGroups: rtx ? [{ semantics: 'FID', ssrcs: ssrcs.join(' ') }] : undefined
+    };
+}
+
+// The answer for an offer, all sections bundled on one mediasoup transport.
+// sections lines up with offer.media: null rejects a section, otherwise
+// { direction, rtpParameters, rids?, msid? } describes what was accepted.
+export const createAnswer = (offer, transport, dtlsParameters, sections) => {
+    const { iceParameters, iceCandidates } = transport;
+    const fingerprint = transport.dtlsParameters.fingerprints.find(({ algorithm }) => algorithm === 'sha-256')
+        ?? transport.dtlsParameters.fingerprints[0];
+
+    const media = offer.media.map((offered, index) => {
+        const section = sections[index];
+        const mid = String(offered.mid ?? index);
+
+        if (!section) {
+            return {
+                type: offered.type,
+                port: 0,
+                protocol: offered.protocol,
+                payloads: offered.payloads,
+                connection: { version: 4, ip: '0.0.0.0' },
+                mid,
+                direction: 'inactive'
+            };
+        }
+
+        const { rtpParameters, direction, rids, msid } = section;
+        return {
+            type: offered.type,
+            port: 7,
+            protocol: 'UDP/TLS/RTP/SAVPF',
+            connection: { version: 4, ip: '127.0.0.1' },
+            mid,
+            direction,
+            iceUfrag: iceParameters.usernameFragment,
+            icePwd: iceParameters.password,
+            setup: dtlsParameters.role === 'client' ? 'passive' : 'active',
+            candidates: iceCandidates.map(candidate => ({
+                foundation: candidate.foundation,
+                component: 1,
+                transport: candidate.protocol,
+                priority: candidate.priority,
+                ip: candidate.address,
+                port: candidate.port,
+                type: candidate.type,
+                tcptype: candidate.tcpType
+            })),
+            endOfCandidates: 'end-of-candidates',
+            rtcpMux: 'rtcp-mux',
+            rtcpRsize: offered.rtcpRsize,
+            ...toCodecLines(rtpParameters.codecs),
+            ext: rtpParameters.headerExtensions.map(({ id, uri }) => ({ value: id, uri })),
+            ...(rids?.length ? {
+                rids: rids.map(id => ({ id, direction: 'recv' })),
+                simulcast: { dir1: 'recv', list1: rids.join(';') }
+            } : {}),
+            ...(msid ? toSsrcLines(rtpParameters, msid) : {})
+        };
+    });
+
+    return write({
+        version: 0,
+        origin: {
+            username: 'mediasoup',
+            sessionId: Date.now(),
+            sessionVersion: 1,
+            netType: 'IN',
+            ipVer: 4,
+            address: '0.0.0.0'
+        },
+        name: '-',
+        timing: { start: 0, stop: 0 },
+        icelite: 'ice-lite',
+        fingerprint: { type: fingerprint.algorithm, hash: fingerprint.value },
+        groups: [{
+            type: 'BUNDLE',
+            mids: media.filter(({ port }) => port !== 0).map(({ mid }) => mid).join(' ')
+        }],
+        msidSemantic: { semantic: 'WMS', token: '*' },
+        media
+    });
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { RequestError } from 'shared';
+
+// How long a peer whose connection dropped keeps its media, waiting for the
+// client to reconnect and resume
+const RESUME_GRACE_PERIOD = Number(process.env.RESUME_GRACE_PERIOD) || 30000;
+
+const sessions = new Map(); // sessionId -> { id, userId, socket, timer }
+
+// Start a session for a socket that just joined a room. The id is the
+// client's secret for taking its place back after a reconnect.
+export const createSession = (socket) => {
+    const id = crypto.randomUUID();
+    sessions.set(id, { id, userId: socket.data.user.userId, socket, timer: null });
+    socket.data.sessionId = id;
+    return id;
+}
+
+const getOwnSession = (socket) => {
+    const session = sessions.get(socket.data.sessionId);
+    return session?.socket === socket ? session : null;
+}
+
+export const endSession = (socket) => {
+    const session = getOwnSession(socket);
+    if (session) {
+        clearTimeout(session.timer);
+        sessions.delete(session.id);
+    }
+    delete socket.data.sessionId;
+}
+
+// The sockets holding a session in a room, connected or waiting to be resumed
+export const getRoomSessionSockets = (roomId) => Array.from(sessions.values())
+    .map(session => session.socket)
+    .filter(socket => socket.data.roomId === roomId);
+
+// The room a session is in, before anyone takes it over
+export const getSessionRoomId = (sessionId) => sessions.get(sessionId)?.socket.data.roomId ?? null;
+
+// Hold on to the session of a socket that disconnected, and call onExpire if
+// nobody resumes it in time. Returns false if the socket has no session.
+export const suspendSession = (socket, onExpire) => {
+    const session = getOwnSession(socket);
+    if (!session) {
+        return false;
+    }
+
+    session.timer = setTimeout(() => {
+        if (sessions.get(session.id) === session && session.socket === socket) {
+            console.log(`Session ${session.id} expired`);
+            onExpire();
+        }
+    }, RESUME_GRACE_PERIOD);
+    return true;
+}
+
+// Move a session to a new socket of the same user. Returns the socket that
+// held it, whose state the new one takes over.
+export const takeOverSession = (socket, sessionId) => {
+    const session = sessions.get(sessionId);
+    if (!session || session.userId !== socket.data.user.userId) {
+        throw new RequestError('SESSION_NOT_FOUND', 'Session not found or expired');
+    }
+
+    clearTimeout(session.timer);
+    session.timer = null;
+
+    const previous = session.socket;
+    session.socket = socket;
+    socket.data.sessionId = sessionId;
+    delete previous.data.sessionId;
+    return previous;
+}
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+
+// How often audio levels are reported, and how long the dominant speaker has
+// to hold before it changes. Both keep the room from being flooded with updates.
+const AUDIO_LEVEL_INTERVAL = Number(process.env.AUDIO_LEVEL_INTERVAL) || 500;
+const ACTIVE_SPEAKER_INTERVAL = Number(process.env.ACTIVE_SPEAKER_INTERVAL) || 500;
+
+// Quieter than this (in dBov) does not count as speaking
+const AUDIO_LEVEL_THRESHOLD = -70;
+
+// Emits 'activeSpeaker' with the room and { producerId, socketId },
+// and 'audioLevels' with the room and [{ producerId, socketId, volume }]
+export const speakerEvents = new EventEmitter();
+
+const speakerSockets = new Map(); // producerId -> socketId of the speaker
+
+// Watch the audio on the room's origin router, where every producer lives
+export const addSpeakerObservers = async (room) => {
+    const audioLevelObserver = await room.router.createAudioLevelObserver({
+        maxEntries: 10,
+        threshold: AUDIO_LEVEL_THRESHOLD,
+        interval: AUDIO_LEVEL_INTERVAL
+    });
+    const activeSpeakerObserver = await room.router.createActiveSpeakerObserver({
+        interval: ACTIVE_SPEAKER_INTERVAL
+    });
+
+    audioLevelObserver.on('volumes', (volumes) => {
+        speakerEvents.emit('audioLevels', room, volumes.map(({ producer, volume }) => ({
+            producerId: producer.id,
+            socketId: speakerSockets.get(producer.id),
+            volume
+        })));
+    });
+
+    audioLevelObserver.on('silence', () => {
+        speakerEvents.emit('audioLevels', room, []);
+    });
+
+    activeSpeakerObserver.on('dominantspeaker', ({ producer }) => {
+        speakerEvents.emit('activeSpeaker', room, {
+            producerId: producer.id,
+            socketId: speakerSockets.get(producer.id)
+        });
+    });
+
+    room.audioLevelObserver = audioLevelObserver;
+    room.activeSpeakerObserver = activeSpeakerObserver;
+}
+
+// Feed a microphone into the room's observers. Screen share audio is left
+// out, a presentation playing sound is not somebody talking.
+export const addSpeaker = async (room, producer, socketId) => {
+    if (producer.kind !== 'audio' || producer.appData.source !== 'mic') {
+        return;
+    }
+
+    speakerSockets.set(producer.id, socketId);
+    producer.observer.on('close', () => speakerSockets.delete(producer.id));
+
+    // Closing the producer takes it out of both observers
+    await room.audioLevelObserver.addProducer({ producerId: producer.id });
+    await room.activeSpeakerObserver.addProducer({ producerId: producer.id });
+}
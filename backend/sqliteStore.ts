@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { ChatMessage, ModerationEvent } from 'shared';
+import type { ParticipantRecord, RecordingRecord, RoomRecord, Store } from './store.js';
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS rooms (
+        room_id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        opened_at TEXT NOT NULL,
+        closed_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS participants (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL,
+        peer_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        joined_at TEXT NOT NULL,
+        left_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS participants_by_room ON participants (room_id, joined_at);
+
+    CREATE TABLE IF NOT EXISTS chat_messages (
+        message_id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        socket_id TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        text TEXT NOT NULL,
+        sent_at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS chat_messages_by_room ON chat_messages (room_id, sent_at);
+
+    CREATE TABLE IF NOT EXISTS recordings (
+        recording_id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        stopped_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS recordings_by_room ON recordings (room_id, started_at);
+
+    CREATE TABLE IF NOT EXISTS moderation_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        by_peer_id TEXT NOT NULL,
+        by_name TEXT NOT NULL,
+        peer_id TEXT,
+        peer_name TEXT,
+        at TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS moderation_actions_by_room ON moderation_actions (room_id, at);
+`;
+
+// Keeps everything in an SQLite file. better-sqlite3 is synchronous, which
+// is fine for single-row writes on an indexed table.
+export const createSqliteStore = (file: string): Store => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    // Nothing is open after a restart: close what the last run left open
+    const startedAt = new Date().toISOString();
+    db.prepare('UPDATE rooms SET closed_at = ? WHERE closed_at IS NULL').run(startedAt);
+    db.prepare('UPDATE participants SET left_at = ? WHERE left_at IS NULL').run(startedAt);
+    db.prepare('UPDATE recordings SET stopped_at = ? WHERE stopped_at IS NULL').run(startedAt);
+
+    const statements = {
+        openRoom: db.prepare(`
+            INSERT INTO rooms (room_id, created_at, opened_at) VALUES (@roomId, @at, @at)
+            ON CONFLICT (room_id) DO UPDATE SET opened_at = @at, closed_at = NULL
+        `),
+        closeRoom: db.prepare('UPDATE rooms SET closed_at = ? WHERE room_id = ?'),
+        addParticipant: db.prepare(`
+            INSERT INTO participants (room_id, peer_id, user_id, display_name, role, joined_at)
+            VALUES (@roomId, @peerId, @userId, @displayName, @role, @joinedAt)
+        `),
+        removeParticipant: db.prepare(
+            'UPDATE participants SET left_at = ? WHERE room_id = ? AND peer_id = ? AND left_at IS NULL'
+        ),
+        addChatMessage: db.prepare(`
+            INSERT OR IGNORE INTO chat_messages (message_id, room_id, socket_id, display_name, text, sent_at)
+            VALUES (@messageId, @roomId, @socketId, @displayName, @text, @sentAt)
+        `),
+        startRecording: db.prepare(
+            'INSERT OR REPLACE INTO recordings (recording_id, room_id, started_at) VALUES (@recordingId, @roomId, @startedAt)'
+        ),
+        stopRecording: db.prepare('UPDATE recordings SET stopped_at = ? WHERE recording_id = ?'),
+        addModerationAction: db.prepare(`
+            INSERT INTO moderation_actions (room_id, action, by_peer_id, by_name, peer_id, peer_name, at)
+            VALUES (@roomId, @action, @by, @byName, @peerId, @peerName, @at)
+        `),
+        getRoom: db.prepare(`
+            SELECT room_id AS roomId, created_at AS createdAt, opened_at AS openedAt, closed_at AS closedAt
+            FROM rooms WHERE room_id = ?
+        `),
+        listParticipants: db.prepare(`
+            SELECT room_id AS roomId, peer_id AS peerId, user_id AS userId, display_name AS displayName,
+                role, joined_at AS joinedAt, left_at AS leftAt
+            FROM participants WHERE room_id = ? ORDER BY joined_at, id
+        `),
+        // Newest first, to take the page from the end
+        listChatMessages: db.prepare(`
+            SELECT message_id AS messageId, socket_id AS socketId, display_name AS displayName, text, sent_at AS sentAt
+            FROM chat_messages
+            WHERE room_id = @roomId AND (@before IS NULL OR sent_at < @before)
+            ORDER BY sent_at DESC LIMIT @limit
+        `),
+        listRecordings: db.prepare(`
+            SELECT recording_id AS recordingId, room_id AS roomId, started_at AS startedAt, stopped_at AS stoppedAt
+            FROM recordings WHERE room_id = ? ORDER BY started_at
+        `),
+        listModerationActions: db.prepare(`
+            SELECT room_id AS roomId, action, by_peer_id AS by, by_name AS byName, peer_id AS peerId,
+                peer_name AS peerName, at
+            FROM moderation_actions WHERE room_id = ? ORDER BY at, id
+        `)
+    };
+
+    console.log(`History store: ${path.resolve(file)}`);
+
+    return {
+        async roomOpened(roomId, at) {
+            statements.openRoom.run({ roomId, at });
+        },
+
+        async roomClosed(roomId, at) {
+            statements.closeRoom.run(at, roomId);
+        },
+
+        async participantJoined(participant) {
+            statements.addParticipant.run(participant);
+        },
+
+        async participantLeft(roomId, peerId, at) {
+            statements.removeParticipant.run(at, roomId, peerId);
+        },
+
+        async chatMessageSent(roomId, message) {
+            statements.addChatMessage.run({ ...message, roomId });
+        },
+
+        async recordingStarted(recording) {
+            statements.startRecording.run(recording);
+        },
+
+        async recordingStopped(recordingId, at) {
+            statements.stopRecording.run(at, recordingId);
+        },
+
+        async moderationActionTaken(event) {
+            statements.addModerationAction.run(event);
+        },
+
+        async getRoom(roomId) {
+            return (statements.getRoom.get(roomId) as RoomRecord | undefined) ?? null;
+        },
+
+        async listParticipants(roomId) {
+            return statements.listParticipants.all(roomId) as ParticipantRecord[];
+        },
+
+        async listChatMessages(roomId, { before, limit }) {
+            const messages = statements.listChatMessages.all({ roomId, before: before ?? null, limit }) as ChatMessage[];
+            return messages.reverse();
+        },
+
+        async listRecordings(roomId) {
+            return statements.listRecordings.all(roomId) as RecordingRecord[];
+        },
+
+        async listModerationActions(roomId) {
+            return statements.listModerationActions.all(roomId) as ModerationEvent[];
+        }
+    };
+}
@@ -0,0 +1,117 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ChatMessage } from 'shared';
+import { createMemoryStore } from './memoryStore.js';
+import { createSqliteStore } from './sqliteStore.js';
+import type { Store } from './store.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const message = (messageId: string, sentAt: string): ChatMessage => ({
+    messageId,
+    socketId: 'peer-1',
+    displayName: 'Ada',
+    text: `message ${messageId}`,
+    sentAt
+});
+
+// Both stores have to answer the same way
+const stores: [string, () => Store][] = [
+    ['memory', createMemoryStore],
+    ['sqlite', () => createSqliteStore(path.join(dir, `${crypto.randomUUID()}.db`))]
+];
+
+for (const [type, createStore] of stores) {
+    describe(`${type} store`, () => {
+        test('keeps when a room was created, last opened and closed', async () => {
+            const store = createStore();
+            assert.equal(await store.getRoom('room-1'), null);
+
+            await store.roomOpened('room-1', '2026-01-01T10:00:00.000Z');
+            await store.roomClosed('room-1', '2026-01-01T11:00:00.000Z');
+            await store.roomOpened('room-1', '2026-01-02T10:00:00.000Z');
+
+            assert.deepEqual(await store.getRoom('room-1'), {
+                roomId: 'room-1',
+                createdAt: '2026-01-01T10:00:00.000Z',
+                openedAt: '2026-01-02T10:00:00.000Z',
+                closedAt: null
+            });
+        });
+
+        test('records each stay of a participant', async () => {
+            const store = createStore();
+            const participant = { roomId: 'room-1', peerId: 'peer-1', userId: 'user-1', displayName: 'Ada', role: 'host' as const };
+
+            await store.participantJoined({ ...participant, joinedAt: '2026-01-01T10:00:00.000Z' });
+            await store.participantLeft('room-1', 'peer-1', '2026-01-01T10:30:00.000Z');
+            await store.participantJoined({ ...participant, peerId: 'peer-2', joinedAt: '2026-01-01T10:45:00.000Z' });
+
+            assert.deepEqual(await store.listParticipants('room-1'), [
+                { ...participant, joinedAt: '2026-01-01T10:00:00.000Z', leftAt: '2026-01-01T10:30:00.000Z' },
+                { ...participant, peerId: 'peer-2', joinedAt: '2026-01-01T10:45:00.000Z', leftAt: null }
+            ]);
+            assert.deepEqual(await store.listParticipants('room-2'), []);
+        });
+
+        test('pages chat back from a time, oldest first', async () => {
+            const store = createStore();
+            for (let minute = 0; minute < 5; minute++) {
+                await store.chatMessageSent('room-1', message(`m${minute}`, `2026-01-01T10:0${minute}:00.000Z`));
+            }
+            await store.chatMessageSent('room-2', message('other', '2026-01-01T10:00:00.000Z'));
+
+            const latest = await store.listChatMessages('room-1', { limit: 2 });
+            assert.deepEqual(latest.map(m => m.messageId), ['m3', 'm4']);
+
+            const earlier = await store.listChatMessages('room-1', { before: latest[0].sentAt, limit: 2 });
+            assert.deepEqual(earlier.map(m => m.messageId), ['m1', 'm2']);
+            assert.deepEqual(earlier[0], message('m1', '2026-01-01T10:01:00.000Z'));
+        });
+
+        test('records recordings and moderation actions per room', async () => {
+            const store = createStore();
+            await store.recordingStarted({ recordingId: 'rec-1', roomId: 'room-1', startedAt: '2026-01-01T10:00:00.000Z' });
+            await store.recordingStopped('rec-1', '2026-01-01T10:10:00.000Z');
+
+            const kick = {
+                roomId: 'room-1',
+                action: 'kick' as const,
+                by: 'peer-1',
+                byName: 'Ada',
+                peerId: 'peer-2',
+                peerName: 'Bob',
+                at: '2026-01-01T10:05:00.000Z'
+            };
+            await store.moderationActionTaken(kick);
+
+            assert.deepEqual(await store.listRecordings('room-1'), [
+                { recordingId: 'rec-1', roomId: 'room-1', startedAt: '2026-01-01T10:00:00.000Z', stoppedAt: '2026-01-01T10:10:00.000Z' }
+            ]);
+            assert.deepEqual(await store.listModerationActions('room-1'), [kick]);
+            assert.deepEqual(await store.listModerationActions('room-2'), []);
+        });
+    });
+}
+
+test('sqlite store closes what the last run left open', async () => {
+    const file = path.join(dir, 'restart.db');
+    const before = createSqliteStore(file);
+    await before.roomOpened('room-1', '2026-01-01T10:00:00.000Z');
+    await before.participantJoined({
+        roomId: 'room-1',
+        peerId: 'peer-1',
+        userId: 'user-1',
+        displayName: 'Ada',
+        role: 'host',
+        joinedAt: '2026-01-01T10:00:00.000Z'
+    });
+
+    const after = createSqliteStore(file);
+    assert.notEqual((await after.getRoom('room-1'))?.closedAt, null);
+    assert.notEqual((await after.listParticipants('room-1'))[0].leftAt, null);
+});
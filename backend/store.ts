@@ -0,0 +1,65 @@
+import type { ChatMessage, ModerationEvent, Role } from 'shared';
+import { config } from './config.js';
+import { createMemoryStore } from './memoryStore.js';
+import { createSqliteStore } from './sqliteStore.js';
+
+// What happened in rooms, kept past a restart: when rooms were open, who was
+// in them, what they said, what was recorded and what hosts did about
+// disruptive peers. Media state stays in memory.
+// Writes come from the events rooms, peers, chat and recordings emit, see
+// history.ts; reads are served by roomsApi.js.
+
+// A room id can be opened again after everyone left, the record keeps the last time
+export interface RoomRecord {
+    roomId: string;
+    createdAt: string;
+    openedAt: string;
+    closedAt: string | null;
+}
+
+// One stay of a peer in a room, from joining until leaving. A resumed
+// session is the same stay.
+export interface ParticipantRecord {
+    roomId: string;
+    peerId: string;
+    userId: string;
+    displayName: string;
+    role: Role;
+    joinedAt: string;
+    leftAt: string | null;
+}
+
+export interface RecordingRecord {
+    recordingId: string;
+    roomId: string;
+    startedAt: string;
+    stoppedAt: string | null;
+}
+
+// A page of chat, the latest messages sent before a time, oldest first
+export interface ChatQuery {
+    before?: string;
+    limit: number;
+}
+
+export interface Store {
+    roomOpened(roomId: string, at: string): Promise<void>;
+    roomClosed(roomId: string, at: string): Promise<void>;
+    participantJoined(participant: Omit<ParticipantRecord, 'leftAt'>): Promise<void>;
+    participantLeft(roomId: string, peerId: string, at: string): Promise<void>;
+    chatMessageSent(roomId: string, message: ChatMessage): Promise<void>;
+    recordingStarted(recording: Omit<RecordingRecord, 'stoppedAt'>): Promise<void>;
+    recordingStopped(recordingId: string, at: string): Promise<void>;
+    moderationActionTaken(event: ModerationEvent): Promise<void>;
+
+    getRoom(roomId: string): Promise<RoomRecord | null>;
+    listParticipants(roomId: string): Promise<ParticipantRecord[]>;
+    listChatMessages(roomId: string, query: ChatQuery): Promise<ChatMessage[]>;
+    listRecordings(roomId: string): Promise<RecordingRecord[]>;
+    listModerationActions(roomId: string): Promise<ModerationEvent[]>;
+}
+
+// SQLite in a file by default, memory for tests and throwaway servers
+export const store: Store = config.store.type === 'memory'
+    ? createMemoryStore()
+    : createSqliteStore(config.store.file);
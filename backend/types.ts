@@ -0,0 +1,63 @@
+import type { DefaultEventsMap, Socket } from 'socket.io';
+import type { ActiveSpeakerObserver, AudioLevelObserver, Router, Worker } from 'mediasoup/types';
+import type {
+    ClientToServerEvents,
+    ServerToClientEvents,
+    ChatMessage,
+    Identity,
+    JoinedRoom,
+    Role,
+    RtpCapabilities
+} from 'shared';
+
+// What the server keeps on each socket, see peers.js and sessions.js
+export interface SocketData {
+    user: Identity;
+    roomId?: string;
+    peerId?: string;
+    role?: Role;
+    sessionId?: string;
+    maxBitrate?: number | null;
+    rtpCapabilities?: RtpCapabilities;
+}
+
+export type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
+
+// Someone in a room, see rooms.js addPeer
+export interface RoomPeer {
+    socketId: string;
+    displayName: string;
+    role: Role;
+}
+
+// Someone waiting in a room's lobby, see peers.js joinRoom
+export interface LobbyRequest {
+    socket: AppSocket;
+    displayName: string;
+    role: Role;
+    requestedAt: string;
+    onAdmitted?: (joined: JoinedRoom) => void;
+    onDenied?: () => void;
+}
+
+// A room as rooms.js opens it
+export interface Room {
+    id: string;
+    name: string;
+    maxParticipants: number;
+    maxProducers: number | null;
+    locked: boolean;
+    lobby: boolean;
+    password: { salt: Buffer, hash: Buffer } | null;
+    idleTimer: NodeJS.Timeout | null;
+    worker: Worker;
+    router: Router;
+    viewerRouters: { router: Router, worker: Worker }[];
+    pendingViewerRouter: Promise<unknown> | null;
+    audioLevelObserver: AudioLevelObserver | null;
+    activeSpeakerObserver: ActiveSpeakerObserver | null;
+    chatHistory: ChatMessage[];
+    peers: Map<string, RoomPeer>;
+    waiting: Map<string, LobbyRequest>;
+    bannedUserIds: Set<string>;
+}
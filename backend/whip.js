@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { RequestError } from 'shared';
+import { createRouter, createWebRtcTransport, mediaCodecs } from './mediasoup.js';
+import { getRoom, getOrCreateRoom } from './rooms.js';
+import { addExternalPeer, removeExternalPeer, addExternalProducer, getBroadcaster } from './peers.js';
+import {
+    parseOffer,
+    getDtlsParameters,
+    getOfferedCodecs,
+    matchesCodec,
+    getProducerRtpParameters,
+    getRemoteRtpCapabilities,
+    createAnswer
+} from './sdp.js';
+
+// WHIP publishing and WHEP playback sessions. Each one is a single mediasoup
+// transport set up from an SDP offer posted over HTTP and torn down with a
+// DELETE on its resource URL, so no Socket.IO client is needed.
+
+const sessions = new Map(); // sessionId -> session
+
+export const getSession = (sessionId) => sessions.get(sessionId);
+
+export const closeSession = (sessionId) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+        throw new Error('Session not found');
+    }
+    sessions.delete(sessionId);
+
+    // Closing the transport closes its producers or consumers
+    session.transport?.close();
+    session.router?.close();
+    if (session.type === 'whip') {
+        removeExternalPeer(session.roomId, session.peerId);
+    }
+
+    console.log(`${session.type.toUpperCase()} session ${sessionId} closed`);
+}
+
+// End the session once the client is gone for good, or its room's media is
+const closeOnEnd = (session, room) => {
+    const close = () => {
+        if (sessions.get(session.id) === session) {
+            closeSession(session.id);
+        }
+    };
+
+    session.transport.on('dtlsstatechange', (state) => {
+        if (state === 'failed' || state === 'closed') {
+            close();
+        }
+    });
+    room.router.observer.once('close', close);
+}
+
+// userId is whoever started the session, they may end it along with hosts
+const register = (type, roomId, userId) => {
+    const id = crypto.randomUUID();
+    const session = { id, type, roomId, userId, transport: null, router: null };
+    sessions.set(id, session);
+    return session;
+}
+
+// Publish into a room: the client becomes a participant of its own, with a
+// producer for each m-section we can take. Creates the room if needed, and
+// gets in like a socket would: see addExternalPeer. Returns the session id
+// and the SDP answer.
+export const createWhipSession = async (roomId, user, sdp, password) => {
+    const offer = parseOffer(sdp);
+    const dtlsParameters = getDtlsParameters(offer);
+    const room = await getOrCreateRoom(roomId);
+
+    const session = register('whip', roomId, user.userId);
+    const displayName = user.displayName ?? 'WHIP';
+    session.peerId = `whip-${session.id}`;
+
+    try {
+        await addExternalPeer(room, {
+            peerId: session.peerId,
+            user,
+            displayName,
+            password,
+            close: () => closeSession(session.id)
+        });
+
+        session.transport = await createWebRtcTransport(room.router);
+        await session.transport.connect({ dtlsParameters });
+
+        const sections = [];
+        for (const media of offer.media) {
+            const rtpParameters = media.direction === 'sendonly' || media.direction === 'sendrecv'
+                ? getProducerRtpParameters(media, room.router.rtpCapabilities)
+                : null;
+            if (!rtpParameters) {
+                sections.push(null);
+                continue;
+            }
+
+            const producer = await session.transport.produce({
+                kind: media.type,
+                rtpParameters,
+                appData: { source: media.type === 'audio' ? 'mic' : 'webcam' }
+            });
+            await addExternalProducer(room, producer, { peerId: session.peerId, displayName });
+
+            sections.push({
+                direction: 'recvonly',
+                rtpParameters,
+                rids: rtpParameters.encodings.map(({ rid }) => rid).filter(Boolean)
+            });
+        }
+
+        if (!sections.some(Boolean)) {
+            throw new Error('The offer has no audio or video we can receive');
+        }
+
+        closeOnEnd(session, room);
+        console.log(`WHIP session ${session.id} (${displayName}) publishing into room ${roomId}`);
+        return { sessionId: session.id, answer: createAnswer(offer, session.transport, dtlsParameters, sections) };
+    } catch (error) {
+        closeSession(session.id);
+        throw error;
+    }
+}
+
+// Our codecs, with the payload types the offer gave them. Codecs the offer
+// does not list are left out, the broadcaster has to send one it does.
+const getOfferCodecs = (offer) => {
+    const offered = offer.media.flatMap(getOfferedCodecs);
+    return mediaCodecs.flatMap(codec => {
+        const match = offered.find(candidate => candidate.kind === codec.kind && matchesCodec(codec, candidate));
+        return match ? [{ ...codec, preferredPayloadType: match.payloadType }] : [];
+    });
+}
+
+// Watch a room: the broadcaster (see getBroadcaster) is sent to the client,
+// one track per recvonly m-section. mediasoup always sends with its router's
+// payload types, so the session gets a router of its own that uses the
+// offer's, and the broadcaster's producers are piped into it.
+export const createWhepSession = async (roomId, user, sdp) => {
+    const offer = parseOffer(sdp);
+    const dtlsParameters = getDtlsParameters(offer);
+    const room = getRoom(roomId);
+    if (!room) {
+        throw new RequestError('ROOM_NOT_FOUND', `Room ${roomId} not found`);
+    }
+    const broadcaster = getBroadcaster(room);
+
+    const session = register('whep', roomId, user.userId);
+
+    try {
+        session.router = await createRouter(room.worker, getOfferCodecs(offer));
+
+        const piped = [];
+        for (const producer of broadcaster.producers) {
+            try {
+                const { pipeProducer } = await room.router.pipeToRouter({ producerId: producer.id, router: session.router });
+                piped.push(pipeProducer);
+            } catch (error) {
+                console.warn(`WHEP session ${session.id} cannot receive producer ${producer.id}:`, error.message);
+            }
+        }
+
+        session.transport = await createWebRtcTransport(session.router);
+        await session.transport.connect({ dtlsParameters });
+
+        const sections = [];
+        for (const media of offer.media) {
+            const index = piped.findIndex(producer => producer.kind === media.type);
+            if (index === -1 || !['recvonly', 'sendrecv'].includes(media.direction)) {
+                sections.push(null);
+                continue;
+            }
+            const [producer] = piped.splice(index, 1);
+
+            // Without RTX, so no payload type of its own has to be agreed on
+            const consumer = await session.transport.consume({
+                producerId: producer.id,
+                rtpCapabilities: getRemoteRtpCapabilities(media),
+                mid: String(media.mid),
+                enableRtx: false
+            });
+
+            sections.push({
+                direction: 'sendonly',
+                rtpParameters: consumer.rtpParameters,
+                msid: `${broadcaster.socketId} ${consumer.id}`
+            });
+        }
+
+        if (!sections.some(Boolean)) {
+            throw new Error('The offer cannot receive any of the broadcaster\'s media');
+        }
+
+        closeOnEnd(session, room);
+        console.log(`WHEP session ${session.id} watching ${broadcaster.displayName} in room ${roomId}`);
+        return { sessionId: session.id, answer: createAnswer(offer, session.transport, dtlsParameters, sections) };
+    } catch (error) {
+        closeSession(session.id);
+        throw error;
+    }
+}
@@ -0,0 +1,89 @@
+import express from 'express';
+import { RequestError } from 'shared';
+import { getSession, closeSession, createWhipSession, createWhepSession } from './whip.js';
+import { authenticateRequest, canJoinRoom, isAllowed } from './auth.js';
+
+// WHIP (publish) and WHEP (play) for OBS, GStreamer and other standard tools:
+//   POST   /whip/:roomId?password=    SDP offer in, 201 with the SDP answer and a Location
+//   DELETE /whip/:roomId/:sessionId   stop publishing, for the publisher or a host
+//   POST   /whep/:roomId              same, to watch the room's broadcaster
+//   DELETE /whep/:roomId/:sessionId
+// Clients send their token as a Bearer token, like for the egress API.
+// Publishers get into a room like everyone else, see createWhipSession: a
+// room with a password needs it in the URL, as tools like OBS only take a URL.
+
+// Why a session was refused, anything else is a bad offer
+const ERROR_STATUS = {
+    ROOM_NOT_FOUND: 404,
+    FORBIDDEN: 403,
+    ROOM_LOCKED: 403,
+    WRONG_PASSWORD: 403,
+    BANNED: 403,
+    NOT_ADMITTED: 403,
+    ROOM_FULL: 409,
+    UNAVAILABLE: 503
+};
+
+const createSessionRouter = (type, action, createSession) => {
+    const router = express.Router();
+
+    router.use(authenticateRequest);
+
+    router.post('/:roomId', express.text({ type: 'application/sdp' }), async (req, res) => {
+        const { roomId } = req.params;
+        if (!req.is('application/sdp') || typeof req.body !== 'string') {
+            return res.status(415).json({ error: 'Expected an application/sdp offer' });
+        }
+
+        if (!canJoinRoom(req.user, roomId) || !isAllowed(req.user.role, action)) {
+            return res.status(403).json({ error: `Forbidden: token does not allow ${type.toUpperCase()} in this room` });
+        }
+
+        try {
+            const { sessionId, answer } = await createSession(req);
+            res.status(201)
+                .location(`${req.baseUrl}/${encodeURIComponent(roomId)}/${sessionId}`)
+                .type('application/sdp')
+                .send(answer);
+        } catch (error) {
+            console.error(`Error creating ${type.toUpperCase()} session:`, error);
+            const code = error instanceof RequestError ? error.code : undefined;
+            res.status(ERROR_STATUS[code] ?? 400).json({ error: error.message, code });
+        }
+    });
+
+    // mediasoup is ICE lite and every candidate is in the answer, so there
+    // is nothing to trickle
+    router.patch('/:roomId/:sessionId', (req, res) => {
+        res.status(405).set('Allow', 'POST, DELETE').json({ error: 'Trickle ICE is not supported' });
+    });
+
+    router.delete('/:roomId/:sessionId', (req, res) => {
+        const { roomId, sessionId } = req.params;
+        const session = getSession(sessionId);
+        if (!session || session.type !== type || session.roomId !== roomId) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        const isOwner = session.userId === req.user.userId;
+        if (!canJoinRoom(req.user, roomId) || (!isOwner && !isAllowed(req.user.role, 'moderate'))) {
+            return res.status(403).json({ error: 'Forbidden: only whoever started the session or a host can end it' });
+        }
+
+        closeSession(sessionId);
+        res.sendStatus(200);
+    });
+
+    return router;
+}
+
+export const whipRouter = createSessionRouter('whip', 'produce',
+    (req) => createWhipSession(
+        req.params.roomId,
+        req.user,
+        req.body,
+        typeof req.query.password === 'string' ? req.query.password : undefined
+    ));
+
+export const whepRouter = createSessionRouter('whep', 'consume',
+    (req) => createWhepSession(req.params.roomId, req.user, req.body));
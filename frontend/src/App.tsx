@@ -2,6 +2,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Main from './page/Main';
 import Stream from './page/Stream';
 import Watch from './page/Watch';
+import Video from './page/Video';
 
 function App() {
   return (
@@ -9,8 +10,9 @@ function App() {
       <Router>
         <Routes>
           <Route path="/" element={<Main />} />
-          <Route path="/stream" element={<Stream />} />
-          <Route path="/watch" element={<Watch />} />
+          <Route path="/stream/:roomId" element={<Stream />} />
+          <Route path="/watch/:roomId" element={<Watch />} />
+          <Route path="/call/:roomId?" element={<Video />} />
           <Route path="*" element={<Main />} />
         </Routes>
       </Router>
@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import type { ChatMessage } from 'shared';
+
+interface Props {
+  messages: ChatMessage[];
+  // Our peer id, to tell our own messages apart
+  selfId: string | null;
+  // Whether messages go out on a DataChannel, else over Socket.IO
+  overDataChannel: boolean;
+  onSend: (text: string) => void | Promise<void>;
+  disabled?: boolean;
+  error?: string;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+// Pasted links open in a new tab
+const renderText = (text: string) => text.split(URL_PATTERN).map((part, index) =>
+  index % 2 === 1
+    ? <a key={index} href={part} target="_blank" rel="noreferrer">{part}</a>
+    : part
+);
+
+// The room's chat, newest at the bottom
+const ChatPanel = ({ messages, selfId, overDataChannel, onSend, disabled, error }: Props) => {
+  const [text, setText] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!message) return;
+
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <div style={{ border: '1px solid #ccc', padding: '10px', maxWidth: '400px' }}>
+      <h3 style={{ marginTop: 0 }}>
+        Chat
+        <span style={{ marginLeft: '10px', fontSize: '12px', color: '#666', fontWeight: 'normal' }}>
+          {overDataChannel ? 'via DataChannel' : 'via server'}
+        </span>
+      </h3>
+      <div ref={listRef} style={{ height: '250px', overflowY: 'auto', marginBottom: '10px' }}>
+        {messages.length === 0 && <p style={{ color: '#666' }}>No messages yet</p>}
+        {messages.map(message => (
+          <p key={message.messageId} style={{ margin: '5px 0', wordBreak: 'break-word' }}>
+            <strong>{message.socketId === selfId ? 'You' : message.displayName}</strong>
+            <span style={{ marginLeft: '5px', fontSize: '11px', color: '#666' }}>
+              {new Date(message.sentAt).toLocaleTimeString()}
+            </span>
+            <br />
+            {renderText(message.text)}
+          </p>
+        ))}
+      </div>
+      <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '5px' }}>
+        <input
+          type="text"
+          placeholder="Say something"
+          value={text}
+          maxLength={2000}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          style={{ flex: 1, padding: '5px' }}
+        />
+        <button type="submit" disabled={disabled || !text.trim()}>Send</button>
+      </form>
+      {error && <p style={{ color: '#721c24', fontSize: '12px' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default ChatPanel;
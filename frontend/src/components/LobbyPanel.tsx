@@ -0,0 +1,29 @@
+import type { LobbyRequest } from 'shared';
+
+interface Props {
+  requests: LobbyRequest[];
+  onAdmit: (socketId: string) => void;
+  onDeny: (socketId: string) => void;
+  error?: string;
+}
+
+// Hosts: who is waiting to join, oldest first
+const LobbyPanel = ({ requests, onAdmit, onDeny, error }: Props) => (
+  <div style={{ marginBottom: '20px' }}>
+    <h3>Lobby ({requests.length})</h3>
+    {requests.length === 0 && <p style={{ color: '#666' }}>Nobody is waiting</p>}
+    {requests.map(request => (
+      <div key={request.socketId} style={{ marginBottom: '5px' }}>
+        <strong>{request.displayName}</strong>
+        <span style={{ marginLeft: '5px', fontSize: '12px', color: '#666' }}>
+          waiting since {new Date(request.requestedAt).toLocaleTimeString()}
+        </span>
+        <button onClick={() => onAdmit(request.socketId)} style={{ marginLeft: '10px' }}>Admit</button>
+        <button onClick={() => onDeny(request.socketId)} style={{ marginLeft: '5px' }}>Deny</button>
+      </div>
+    ))}
+    {error && <p style={{ color: '#721c24', fontSize: '12px' }}>{error}</p>}
+  </div>
+);
+
+export default LobbyPanel;
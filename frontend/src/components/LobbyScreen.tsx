@@ -0,0 +1,37 @@
+import { useEffect, useState, type RefObject } from 'react';
+
+interface Props {
+  roomName: string;
+  denied: boolean;
+  // Shows the preview in videoRef, as the call does later
+  getPermissions: () => Promise<MediaStream>;
+  videoRef: RefObject<HTMLVideoElement | null>;
+}
+
+// Waiting for a host to let us in, with a look at our own camera meanwhile
+const LobbyScreen = ({ roomName, denied, getPermissions, videoRef }: Props) => {
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPermissions().catch((error: Error) => setPreviewError(error.message));
+  }, [getPermissions]);
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h1>{roomName}</h1>
+      {denied
+        ? <p style={{ color: '#721c24' }}>A host did not let you in.</p>
+        : <p>Waiting for a host to let you in...</p>}
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        style={{ width: '300px', height: '200px', backgroundColor: '#000', border: '2px solid #ccc' }}
+      />
+      {previewError && <p style={{ color: '#721c24', fontSize: '12px' }}>{previewError}</p>}
+    </div>
+  );
+};
+
+export default LobbyScreen;
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import type { PeerInfo, Role } from 'shared';
+
+interface Props {
+  // Everyone else in the room
+  peers: PeerInfo[];
+  selfRole: Role | null;
+  // Hosts get a menu of actions for each peer
+  canModerate: boolean;
+  onKick: (peerId: string) => void;
+  onStopVideo: (peerId: string) => void;
+  onTransferHost: (peerId: string) => void;
+  onMuteAll: () => void;
+  error?: string;
+}
+
+const menuButtonStyle = { display: 'block', width: '100%', textAlign: 'left', padding: '5px 10px' } as const;
+
+// Who is in the room, and for hosts what to do about someone disrupting it
+const ParticipantList = ({ peers, selfRole, canModerate, onKick, onStopVideo, onTransferHost, onMuteAll, error }: Props) => {
+  const [menuPeerId, setMenuPeerId] = useState<string | null>(null);
+
+  // Close the menu along with whatever was picked in it
+  const pick = (action: (peerId: string) => void, peerId: string) => {
+    setMenuPeerId(null);
+    action(peerId);
+  };
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <h3>
+        In the room ({peers.length + 1})
+        {canModerate && (
+          <button onClick={onMuteAll} disabled={peers.length === 0} style={{ marginLeft: '10px', fontSize: '12px' }}>
+            Mute everyone
+          </button>
+        )}
+      </h3>
+      <div style={{ marginBottom: '5px' }}>
+        <strong>You</strong>
+        {selfRole && <span style={{ marginLeft: '5px', fontSize: '12px', color: '#666' }}>{selfRole}</span>}
+      </div>
+      {peers.map(peer => (
+        <div key={peer.socketId} style={{ marginBottom: '5px', position: 'relative' }}>
+          <strong>{peer.displayName}</strong>
+          <span style={{ marginLeft: '5px', fontSize: '12px', color: '#666' }}>{peer.role}</span>
+          {canModerate && (
+            <button
+              onClick={() => setMenuPeerId(id => id === peer.socketId ? null : peer.socketId)}
+              aria-label={`Actions for ${peer.displayName}`}
+              style={{ marginLeft: '10px' }}
+            >
+              ⋯
+            </button>
+          )}
+          {canModerate && menuPeerId === peer.socketId && (
+            <div style={{
+              position: 'absolute',
+              zIndex: 1,
+              backgroundColor: 'white',
+              border: '1px solid #ccc',
+              borderRadius: '4px',
+              minWidth: '160px'
+            }}>
+              <button onClick={() => pick(onStopVideo, peer.socketId)} style={menuButtonStyle}>Stop video</button>
+              <button onClick={() => pick(onTransferHost, peer.socketId)} style={menuButtonStyle}>Make host</button>
+              <button onClick={() => pick(onKick, peer.socketId)} style={{ ...menuButtonStyle, color: '#dc3545' }}>
+                Remove from room
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      {error && <p style={{ color: '#721c24', fontSize: '12px' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default ParticipantList;
@@ -1,27 +1,42 @@
-// @ts-nocheck
-
-import React, { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useMediaSoup } from '../hooks/useMediaSoup';
+import type { RemoteStream } from '../hooks/useMediaSoup';
+import ChatPanel from './ChatPanel';
+
+interface Props {
+  initialRoomId?: string;
+  initialName?: string;
+}
 
-const VideoCall = () => {
-  const [roomId, setRoomId] = useState('');
-  const [userName, setUserName] = useState('');
+const VideoCall = ({ initialRoomId = '', initialName = '' }: Props) => {
+  const [roomId, setRoomId] = useState(initialRoomId);
+  const [userName, setUserName] = useState(initialName);
   const [isInCall, setIsInCall] = useState(false);
-  
-  const localVideoRef = useRef(null);
-  const remoteVideosRef = useRef(new Map());
+
+  const localVideoRef = useRef<HTMLVideoElement>(null);
 
   const {
     isConnected,
     isJoined,
+    isWaitingInLobby,
     localStream,
     remoteStreams,
     peers,
     connect,
     joinRoom,
+    leaveRoom,
     getUserMedia,
     startProducing,
-    stopProducing,
+    isScreenSharing,
+    activeSpeakerId,
+    speakingPeerIds,
+    isRecording,
+    chatMessages,
+    chatOverDataChannel,
+    sendChatMessage,
+    selfId,
+    startScreenShare,
+    stopScreenShare,
     disconnect
   } = useMediaSoup();
 
@@ -38,53 +53,60 @@ const VideoCall = () => {
     }
   }, [localStream]);
 
-  // Update remote videos when remote streams change
-  useEffect(() => {
-    remoteStreams.forEach((streamData, consumerId) => {
-      const videoElement = remoteVideosRef.current.get(consumerId);
-      if (videoElement) {
-        videoElement.srcObject = streamData.stream;
-      }
-    });
-  }, [remoteStreams]);
-
   const handleJoinRoom = async () => {
     if (!roomId || !userName) {
       alert('Please enter room ID and name');
       return;
     }
 
+    let stream: MediaStream;
     try {
       // Get user media first
-      const stream = await getUserMedia({ video: true, audio: true });
-      
-      // Join room
-      joinRoom(roomId, userName);
-      
-      // Start producing after a short delay to ensure transports are ready
-      setTimeout(() => {
-        startProducing(stream);
-      }, 3000);
-      
+      stream = await getUserMedia({ video: true, audio: true });
+    } catch (error) {
+      console.error('Failed to access camera/microphone:', error);
+      alert('Failed to access camera/microphone');
+      return;
+    }
+
+    try {
+      // Join room, this resolves once both transports are ready
+      await joinRoom(roomId, userName);
+      await startProducing(stream);
       setIsInCall(true);
     } catch (error) {
       console.error('Failed to join room:', error);
-      alert('Failed to access camera/microphone');
+      stream.getTracks().forEach(track => track.stop());
+      alert(`Failed to join room: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const isSpotlight = (streamData: RemoteStream) =>
+    streamData.source === 'webcam' && streamData.peerId === activeSpeakerId;
+  const isLargeTile = (streamData: RemoteStream) => streamData.source === 'screen' || isSpotlight(streamData);
+
+  const handleToggleScreenShare = () => {
+    if (isScreenSharing) {
+      stopScreenShare();
+    } else {
+      startScreenShare();
     }
   };
 
   const handleLeaveRoom = () => {
-    stopProducing();
+    leaveRoom();
     setIsInCall(false);
   };
 
   return (
     <div style={{ padding: '20px' }}>
       <h1>MediaSoup Video Call</h1>
-      
+
       <div style={{ marginBottom: '20px' }}>
         <p>Status: {isConnected ? 'Connected' : 'Disconnected'}</p>
         {isJoined && <p>Joined Room: {roomId}</p>}
+        {isWaitingInLobby && <p>Waiting for a host to let you in...</p>}
+        {isJoined && isRecording && <p style={{ color: 'red', fontWeight: 'bold' }}>● REC This call is being recorded</p>}
       </div>
 
       {!isInCall ? (
@@ -103,7 +125,7 @@ const VideoCall = () => {
             onChange={(e) => setUserName(e.target.value)}
             style={{ marginRight: '10px', padding: '5px' }}
           />
-          <button 
+          <button
             onClick={handleJoinRoom}
             disabled={!isConnected}
             style={{ padding: '5px 10px' }}
@@ -113,12 +135,18 @@ const VideoCall = () => {
         </div>
       ) : (
         <div style={{ marginBottom: '20px' }}>
-          <button 
+          <button
             onClick={handleLeaveRoom}
             style={{ padding: '5px 10px', backgroundColor: 'red', color: 'white' }}
           >
             Leave Room
           </button>
+          <button
+            onClick={handleToggleScreenShare}
+            style={{ marginLeft: '10px', padding: '5px 10px' }}
+          >
+            {isScreenSharing ? 'Stop Sharing' : 'Share Screen'}
+          </button>
         </div>
       )}
 
@@ -139,23 +167,52 @@ const VideoCall = () => {
 
         {/* Remote Videos */}
         {Array.from(remoteStreams.entries()).map(([consumerId, streamData]) => (
-          <div key={consumerId} style={{ border: '2px solid green' }}>
-            <h4>Remote Peer ({streamData.kind})</h4>
-            <video
+          streamData.kind === 'audio' ? (
+            // Audio has no tile of its own, it just needs to play
+            <audio
+              key={consumerId}
               ref={(el) => {
-                if (el) {
-                  remoteVideosRef.current.set(consumerId, el);
-                  el.srcObject = streamData.stream;
-                }
+                if (el) el.srcObject = streamData.stream;
               }}
               autoPlay
-              playsInline
-              style={{ width: '300px', height: '200px' }}
             />
-          </div>
+          ) : (
+            <div
+              key={consumerId}
+              style={{
+                border: `2px solid ${speakingPeerIds.has(streamData.peerId) && streamData.source !== 'screen' ? 'orange' : 'green'}`,
+                // Presentations and the dominant speaker get a row of their own, the speaker up front
+                flexBasis: isLargeTile(streamData) ? '100%' : undefined,
+                order: isSpotlight(streamData) ? -1 : undefined
+              }}
+            >
+              <h4>{streamData.source === 'screen' ? `${streamData.peerName} is presenting` : streamData.peerName}</h4>
+              <video
+                ref={(el) => {
+                  if (el) el.srcObject = streamData.stream;
+                }}
+                autoPlay
+                playsInline
+                style={isLargeTile(streamData)
+                  ? { width: '960px', maxWidth: '100%' }
+                  : { width: '300px', height: '200px' }}
+              />
+            </div>
+          )
         ))}
       </div>
 
+      {isJoined && (
+        <div style={{ marginTop: '20px' }}>
+          <ChatPanel
+            messages={chatMessages}
+            selfId={selfId}
+            overDataChannel={chatOverDataChannel}
+            onSend={sendChatMessage}
+          />
+        </div>
+      )}
+
       {/* Peers List */}
       <div style={{ marginTop: '20px' }}>
         <h3>Peers in Room:</h3>
@@ -169,4 +226,4 @@ const VideoCall = () => {
   );
 };
 
-export default VideoCall;
\ No newline at end of file
+export default VideoCall;
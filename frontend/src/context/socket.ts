@@ -1,12 +1,25 @@
 import { createContext } from "react";
-import { Socket } from "socket.io-client";
+import type { Socket } from "socket.io-client";
+import type { ClientToServerEvents, Identity, ServerToClientEvents } from "shared";
+
+// Set VITE_SERVER_URL (e.g. in .env.local) to reach a server on another host
+export const SERVER_URL = import.meta.env.VITE_SERVER_URL ?? "http://localhost:3000";
+
+// Events and payloads both ways, as declared in the shared package
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface SocketContextType {
-  socket: Socket | null;
+  socket: AppSocket | null;
   userId: string | null;
+  identity: Identity | null;
+  token: string | null;
+  authError: string | null;
 }
 
 export const SocketContext = createContext<SocketContextType>({
   socket: null,
   userId: null,
+  identity: null,
+  token: null,
+  authError: null,
 });
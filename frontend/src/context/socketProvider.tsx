@@ -1,33 +1,56 @@
 import React, { useEffect, useState } from "react";
-import { io, Socket } from "socket.io-client";
-import { SocketContext } from "./socket";
+import { io } from "socket.io-client";
+import type { Identity } from "shared";
+import { SocketContext, SERVER_URL, type AppSocket } from "./socket";
 
 interface Props {
+  token: string | null;
   children: React.ReactNode;
 }
 
-export const SocketProvider: React.FC<Props> = ({ children }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
-  const [userId, setUserId] = useState<string | null>(null);
-  const URL = "http://localhost:3000";
+export const SocketProvider: React.FC<Props> = ({ token, children }) => {
+  const [socket, setSocket] = useState<AppSocket | null>(null);
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  const [authError, setAuthError] = useState<string | null>(null);
 
   useEffect(() => {
-    const newSocket = io(URL, { transports: ["websocket"], rejectUnauthorized: false });
+    const newSocket: AppSocket = io(SERVER_URL, {
+      transports: ["websocket"],
+      rejectUnauthorized: false,
+      auth: { token },
+    });
     setSocket(newSocket);
+    setAuthError(null);
 
-    newSocket.on("user_id", (data: string) => {
+    newSocket.on("user_id", (data: Identity) => {
       console.log("Received user_id:", data);
-      setUserId(data);
+      setIdentity(data);
+    });
+
+    // The server rejects the handshake when the token is missing or invalid,
+    // and Socket.IO does not retry after that
+    newSocket.on("connect_error", (error: Error & { data?: { code: string; message: string } }) => {
+      console.error("Connection error:", error);
+      if (error.data?.code === "UNAUTHORIZED") {
+        setAuthError(error.data.message);
+      }
     });
 
+    // Closing the tab looks like a dropped connection to the server, which
+    // would keep our media around for us to resume. Say goodbye instead.
+    const disconnect = () => newSocket.disconnect();
+    window.addEventListener("pagehide", disconnect);
+
     return () => {
+      window.removeEventListener("pagehide", disconnect);
       newSocket.disconnect();
     };
-  }, []);
+  }, [token]);
 
   return (
-    <SocketContext.Provider value={{ socket, userId }}>
-      {userId && <div>User ID: {userId}</div>}
+    <SocketContext.Provider value={{ socket, userId: identity?.userId ?? null, identity, token, authError }}>
+      {authError && <div>Not authorized: {authError}</div>}
+      {identity && <div>User ID: {identity.userId} ({identity.displayName ?? "anonymous"}, {identity.role})</div>}
       {children}
     </SocketContext.Provider>
   );
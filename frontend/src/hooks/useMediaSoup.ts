@@ -1,86 +1,293 @@
-// @ts-nocheck
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useContext } from 'react';
 import { Device } from 'mediasoup-client';
-import io from 'socket.io-client';
+import type { Transport, Producer, Consumer, DataProducer, MediaKind } from 'mediasoup-client/types';
+import { io, type Socket } from 'socket.io-client';
+import {
+  CHAT_LABEL,
+  RequestError,
+  type ChatMessage,
+  type ClientToServerEvents,
+  type ProducerSource,
+  type ProtocolError,
+  type ServerToClientEvents
+} from 'shared';
+import { SocketContext, SERVER_URL, type AppSocket } from '../context/socket';
+import { addChatMessages, parseChatMessage } from '../utils/chat';
+import { getWebcamProduceOptions } from '../utils/videoLayers';
+
+export type { ProducerSource };
+
+export interface RemoteStream {
+  stream: MediaStream;
+  peerId: string;
+  peerName: string;
+  kind: MediaKind;
+  source: ProducerSource;
+}
+
+export interface Peer {
+  id: string;
+  name: string;
+}
+
+type Request = keyof ClientToServerEvents;
+type Reply = keyof ServerToClientEvents;
+type ReplyData<E extends Reply> = Parameters<ServerToClientEvents[E]>[0];
 
 export const useMediaSoup = () => {
+  const { token } = useContext(SocketContext);
   const [isConnected, setIsConnected] = useState(false);
+  // Our socket id, which is how the room knows us
+  const [selfId, setSelfId] = useState<string | null>(null);
   const [isJoined, setIsJoined] = useState(false);
-  const [localStream, setLocalStream] = useState(null);
-  const [remoteStreams, setRemoteStreams] = useState(new Map());
-  const [peers, setPeers] = useState(new Map());
-
-  const socketRef = useRef(null);
-  const deviceRef = useRef(null);
-  const sendTransportRef = useRef(null);
-  const recvTransportRef = useRef(null);
-  const producersRef = useRef(new Map());
-  const consumersRef = useRef(new Map());
+  const [isWaitingInLobby, setIsWaitingInLobby] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<Map<string, RemoteStream>>(new Map());
+  const [peers, setPeers] = useState<Map<string, Peer>>(new Map());
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [speakingPeerIds, setSpeakingPeerIds] = useState<Set<string>>(new Set());
+  const [isRecording, setIsRecording] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatOverDataChannel, setChatOverDataChannel] = useState(false);
+
+  const socketRef = useRef<AppSocket | null>(null);
+  const deviceRef = useRef<Device | null>(null);
+  const sendTransportRef = useRef<Transport | null>(null);
+  const recvTransportRef = useRef<Transport | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const producersRef = useRef<Map<string, Producer>>(new Map());
+  const screenProducersRef = useRef<Producer[]>([]);
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const consumersRef = useRef<Map<string, Consumer>>(new Map());
+  const joinedRoomRef = useRef<{ roomId: string; name: string } | null>(null);
+  const chatProducerRef = useRef<DataProducer | null>(null);
+
+  // Emit a request and wait for the server's reply event. An 'error' about
+  // that request rejects with a RequestError carrying its code.
+  const request = useCallback(<E extends Request, R extends Reply>(
+    event: E,
+    payload: Parameters<ClientToServerEvents[E]>[0],
+    replyEvent: R,
+    matches: (data: ReplyData<R>) => boolean = () => true
+  ): Promise<ReplyData<R>> => {
+    // The signature pairs the events up, Socket.IO's typings cannot follow a generic event name
+    const socket = socketRef.current as Socket | null;
+    if (!socket) {
+      return Promise.reject(new Error('Socket not connected'));
+    }
 
-  // Initialize socket connection
-  const connect = useCallback(() => {
-    socketRef.current = io('http://localhost:3001');
-    
-    socketRef.current.on('connect', () => {
-      setIsConnected(true);
-      console.log('Connected to server');
+    return new Promise((resolve, reject) => {
+      const onReply = (data: ReplyData<R>) => {
+        if (!matches(data)) return;
+        cleanup();
+        resolve(data);
+      };
+      const onError = ({ event: failedEvent, code, message }: ProtocolError) => {
+        if (failedEvent !== event) return;
+        cleanup();
+        reject(new RequestError(code, message));
+      };
+      const cleanup = () => {
+        socket.off(replyEvent as string, onReply);
+        socket.off('error', onError);
+      };
+
+      socket.on(replyEvent as string, onReply);
+      socket.on('error', onError);
+      socket.emit(event, payload);
     });
+  }, []);
 
-    socketRef.current.on('disconnect', () => {
-      setIsConnected(false);
-      setIsJoined(false);
-      console.log('Disconnected from server');
-    });
+  // Consume a producer, the server answers with 'consumer-created'
+  const consumeProducer = useCallback((producerId: string) => {
+    if (!socketRef.current || !recvTransportRef.current || !deviceRef.current) {
+      console.error('Receive transport or device not ready');
+      return;
+    }
 
-    socketRef.current.on('error', (error) => {
-      console.error('Socket error:', error);
+    socketRef.current.emit('create-consumer', {
+      producerId,
+      rtpCapabilities: deviceRef.current.rtpCapabilities
     });
-
-    // Setup MediaSoup event handlers
-    setupMediaSoupHandlers();
   }, []);
 
-  // Setup MediaSoup-specific event handlers
-  const setupMediaSoupHandlers = () => {
-    // Router RTP capabilities received
-    socketRef.current.on('router-rtp-capabilities', async (rtpCapabilities) => {
+
+  // Connect a transport once, the server confirms with 'transport-connected'
+  const setupTransportConnect = useCallback((transport: Transport) => {
+    transport.on('connect', async ({ dtlsParameters }, callback, errback) => {
       try {
-        deviceRef.current = new Device();
-        await deviceRef.current.load({ routerRtpCapabilities: rtpCapabilities });
-        console.log('Device loaded with RTP capabilities');
+        await request(
+          'connect-transport',
+          { transportId: transport.id, dtlsParameters },
+          'transport-connected',
+          ({ transportId }) => transportId === transport.id
+        );
+        callback();
       } catch (error) {
-        console.error('Failed to load device:', error);
+        errback(error instanceof Error ? error : new Error(String(error)));
       }
     });
+  }, [request]);
+
+  // Chat on DataChannels, the server sends it over Socket.IO if this fails
+  const setupChat = useCallback(async (sendTransport: Transport, recvTransport: Transport) => {
+    try {
+      const dataConsumerOptions = await request('consume-data', undefined, 'data-consumer-created');
+      const dataConsumer = await recvTransport.consumeData(dataConsumerOptions);
+      dataConsumer.on('message', (data) => {
+        setChatMessages(prev => addChatMessages(prev, [parseChatMessage(data)]));
+      });
 
-    // Transport created
-    socketRef.current.on('transport-created', async ({ transportId, params, direction }) => {
+      const dataProducer = await sendTransport.produceData({ label: CHAT_LABEL, ordered: true });
+      dataProducer.on('open', () => setChatOverDataChannel(true));
+      dataProducer.on('close', () => setChatOverDataChannel(false));
+      chatProducerRef.current = dataProducer;
+    } catch (error) {
+      console.warn('Chat falls back to Socket.IO:', error);
+    }
+  }, [request]);
+
+  // Join room: load the device, create both transports, then pull the existing producers
+  const joinRoom = useCallback(async (roomId: string, name: string) => {
+    if (!socketRef.current) {
+      throw new Error('Socket not ready');
+    }
+
+    // In a room with a lobby this waits until a host admits us
+    const rtpCapabilities = await request(
+      'join-room',
+      { roomId, name },
+      'router-rtp-capabilities'
+    ).finally(() => setIsWaitingInLobby(false));
+
+    const device = new Device();
+    await device.load({ routerRtpCapabilities: rtpCapabilities });
+    deviceRef.current = device;
+    console.log('Device loaded with RTP capabilities');
+
+    const createTransport = (direction: 'send' | 'recv') => request(
+      'create-transport',
+      { direction },
+      'transport-created',
+      (data) => data.direction === direction
+    );
+    const [send, recv] = await Promise.all([createTransport('send'), createTransport('recv')]);
+
+    const sendTransport = device.createSendTransport(send.params);
+    setupTransportConnect(sendTransport);
+    sendTransport.on('produce', async ({ kind, rtpParameters, appData }, callback, errback) => {
       try {
-        if (direction === 'send') {
-          sendTransportRef.current = deviceRef.current.createSendTransport(params);
-          setupSendTransport(sendTransportRef.current, transportId);
-        } else {
-          recvTransportRef.current = deviceRef.current.createRecvTransport(params);
-          setupRecvTransport(recvTransportRef.current, transportId);
-        }
+        const { producerId } = await request(
+          'create-producer',
+          { kind, rtpParameters, appData: { source: appData.source as ProducerSource } },
+          'producer-created'
+        );
+        callback({ id: producerId });
       } catch (error) {
-        console.error('Failed to create transport:', error);
+        errback(error instanceof Error ? error : new Error(String(error)));
       }
     });
+    sendTransport.on('producedata', async ({ sctpStreamParameters, protocol }, callback, errback) => {
+      try {
+        const { dataProducerId } = await request(
+          'produce-data',
+          { sctpStreamParameters, label: CHAT_LABEL, protocol },
+          'data-producer-created'
+        );
+        callback({ id: dataProducerId });
+      } catch (error) {
+        errback(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    sendTransportRef.current = sendTransport;
+
+    const recvTransport = device.createRecvTransport(recv.params);
+    setupTransportConnect(recvTransport);
+    recvTransportRef.current = recvTransport;
+
+    joinedRoomRef.current = { roomId, name };
+    setIsJoined(true);
 
-    // Transport connected
-    socketRef.current.on('transport-connected', ({ transportId }) => {
-      console.log('Transport connected:', transportId);
+    // Get existing producers now that we can consume them, the chat history comes with them
+    socketRef.current.emit('get-producers');
+    setupChat(sendTransport, recvTransport);
+  }, [request, setupTransportConnect, setupChat]);
+
+  // Send on our chat DataChannel when it is open, else over Socket.IO
+  const sendChatMessage = useCallback((text: string) => {
+    if (chatProducerRef.current?.readyState === 'open') {
+      chatProducerRef.current.send(JSON.stringify({ text }));
+    } else {
+      socketRef.current?.emit('send-chat-message', { text });
+    }
+  }, []);
+
+  // Start producing (share camera/mic)
+  const startProducing = useCallback(async (stream: MediaStream) => {
+    if (!sendTransportRef.current) {
+      console.error('Send transport not ready');
+      return;
+    }
+
+    try {
+      localStreamRef.current = stream;
+      setLocalStream(stream);
+
+      for (const track of stream.getTracks()) {
+        const producer = await sendTransportRef.current.produce({
+          track,
+          // Simulcast the webcam so small tiles elsewhere can get a small layer
+          ...(track.kind === 'video' && deviceRef.current ? getWebcamProduceOptions(deviceRef.current) : {}),
+          appData: { source: track.kind === 'audio' ? 'mic' : 'webcam' }
+        });
+        producersRef.current.set(producer.id, producer);
+
+        producer.on('trackended', () => {
+          console.log('Track ended');
+        });
+
+        producer.on('transportclose', () => {
+          console.log('Transport closed');
+        });
+      }
+    } catch (error) {
+      console.error('Failed to start producing:', error);
+    }
+  }, []);
+
+  // Initialize socket connection
+  const connect = useCallback(() => {
+    const socket: AppSocket = io(SERVER_URL, { transports: ['websocket'], auth: { token } });
+    socketRef.current = socket;
+
+    socket.on('connect', () => {
+      setIsConnected(true);
+      setSelfId(socket.id ?? null);
+      console.log('Connected to server');
+    });
+
+    socket.on('disconnect', () => {
+      setIsConnected(false);
+      setIsJoined(false);
+      console.log('Disconnected from server');
     });
 
-    // Producer created
-    socketRef.current.on('producer-created', ({ producerId }) => {
-      console.log('Producer created:', producerId);
+    socket.on('connect_error', (error) => {
+      console.error('Connection rejected:', error.message);
+    });
+
+    socket.on('error', (error) => {
+      console.error('Socket error:', error);
     });
 
     // Consumer created
-    socketRef.current.on('consumer-created', async (consumerData) => {
+    socket.on('consumer-created', async (consumerData) => {
       try {
+        if (!recvTransportRef.current) {
+          throw new Error('Receive transport not ready');
+        }
+
         const consumer = await recvTransportRef.current.consume({
           id: consumerData.consumerId,
           producerId: consumerData.producerId,
@@ -91,81 +298,159 @@ export const useMediaSoup = () => {
         consumersRef.current.set(consumer.id, consumer);
 
         // Resume consumer
-        socketRef.current.emit('resume-consumer', { consumerId: consumer.id });
+        socket.emit('resume-consumer', { consumerId: consumer.id });
 
         // Add remote stream
         const stream = new MediaStream([consumer.track]);
-        setRemoteStreams(prev => new Map(prev.set(consumer.id, {
+        setRemoteStreams(prev => new Map(prev).set(consumer.id, {
           stream,
-          peerId: consumerData.producerId,
-          kind: consumer.kind
-        })));
+          peerId: consumerData.peerId,
+          peerName: consumerData.peerName,
+          kind: consumer.kind,
+          source: consumerData.appData.source
+        }));
 
       } catch (error) {
         console.error('Failed to create consumer:', error);
       }
     });
 
-    // Consumer resumed
-    socketRef.current.on('consumer-resumed', ({ consumerId }) => {
-      console.log('Consumer resumed:', consumerId);
-    });
-
-    // Consumer closed
-    socketRef.current.on('consumer-closed', ({ consumerId }) => {
+    // Consumer closed because its producer went away
+    socket.on('consumer-closed', ({ consumerId }) => {
       const consumer = consumersRef.current.get(consumerId);
       if (consumer) {
         consumer.close();
         consumersRef.current.delete(consumerId);
-        setRemoteStreams(prev => {
-          const newMap = new Map(prev);
-          newMap.delete(consumerId);
-          return newMap;
-        });
       }
+      setRemoteStreams(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(consumerId);
+        return newMap;
+      });
     });
 
     // New peer joined
-    socketRef.current.on('new-peer', ({ socketId, name }) => {
-      setPeers(prev => new Map(prev.set(socketId, { id: socketId, name })));
+    socket.on('new-peer', ({ socketId, name }) => {
+      setPeers(prev => new Map(prev).set(socketId, { id: socketId, name }));
     });
 
     // Existing peers
-    socketRef.current.on('existing-peers', (peersList) => {
-      const peersMap = new Map();
+    socket.on('existing-peers', (peersList) => {
+      const peersMap = new Map<string, Peer>();
       peersList.forEach(peer => {
         peersMap.set(peer.socketId, { id: peer.socketId, name: peer.name });
       });
       setPeers(peersMap);
     });
 
-
-
     // New producer available
-    socketRef.current.on('new-producer', ({ producerId, peerId, peerName, kind }) => {
+    socket.on('new-producer', ({ producerId, peerId, peerName, kind }) => {
       console.log('New producer available:', { producerId, peerId, kind, peerName });
       // Auto-consume the new producer
       consumeProducer(producerId);
     });
 
     // Existing producers
-    socketRef.current.on('existing-producers', (producers) => {
+    socket.on('existing-producers', (producers) => {
       producers.forEach(({ producerId }) => {
         consumeProducer(producerId);
       });
     });
 
+    // The room moved off a dead worker and everything built on its old
+    // router is gone, so rejoin and send the same stream again
+    socket.on('roomMigrated', async () => {
+      const joined = joinedRoomRef.current;
+      if (!joined) return;
+
+      console.log('Room migrated, rejoining');
+      producersRef.current.forEach(producer => producer.close());
+      producersRef.current.clear();
+      // Sharing again needs a fresh user gesture, so the screen share just ends
+      screenProducersRef.current.forEach(producer => producer.close());
+      screenProducersRef.current = [];
+      screenStreamRef.current?.getTracks().forEach(track => track.stop());
+      screenStreamRef.current = null;
+      setIsScreenSharing(false);
+      consumersRef.current.forEach(consumer => consumer.close());
+      consumersRef.current.clear();
+      sendTransportRef.current?.close();
+      recvTransportRef.current?.close();
+      chatProducerRef.current = null;
+      setChatOverDataChannel(false);
+      setRemoteStreams(new Map());
+
+      socket.emit('leave-room');
+
+      try {
+        await joinRoom(joined.roomId, joined.name);
+        if (localStreamRef.current) {
+          await startProducing(localStreamRef.current);
+        }
+      } catch (error) {
+        console.error('Failed to rejoin migrated room:', error);
+      }
+    });
+
+    socket.on('lobby-waiting', () => {
+      console.log('Waiting for a host to admit us');
+      setIsWaitingInLobby(true);
+    });
+
+    // A host deleted the room or kicked us, the server already sent us out
+    const dropRoom = () => {
+      console.log('Out of the room');
+      joinedRoomRef.current = null;
+      consumersRef.current.forEach(consumer => consumer.close());
+      consumersRef.current.clear();
+      sendTransportRef.current?.close();
+      sendTransportRef.current = null;
+      recvTransportRef.current?.close();
+      recvTransportRef.current = null;
+      chatProducerRef.current = null;
+      setChatOverDataChannel(false);
+      setRemoteStreams(new Map());
+      setPeers(new Map());
+      setIsJoined(false);
+    };
+    socket.on('roomClosed', dropRoom);
+    socket.on('kicked', dropRoom);
+
+    // The dominant speaker, never ourselves: the last remote speaker stays up instead
+    socket.on('activeSpeaker', ({ socketId }) => {
+      if (socketId !== socket.id) {
+        setActiveSpeakerId(socketId);
+      }
+    });
+
+    // Everyone currently above the silence threshold
+    socket.on('audioLevels', (levels) => {
+      setSpeakingPeerIds(new Set(levels.map(level => level.socketId)));
+    });
+
+    // The room is being recorded on the server
+    socket.on('recordingStarted', () => setIsRecording(true));
+    socket.on('recordingStopped', () => setIsRecording(false));
+
+    // Chat for whoever has no DataChannel, and what was said before we came in
+    socket.on('chatMessage', (message) => {
+      setChatMessages(prev => addChatMessages(prev, [message]));
+    });
+    socket.on('chatHistory', (messages) => {
+      setChatMessages(prev => addChatMessages(prev, messages));
+    });
+
     // Peer disconnected
-    socketRef.current.on('peer-disconnected', ({ socketId }) => {
+    socket.on('peer-disconnected', ({ socketId }) => {
       setPeers(prev => {
         const newMap = new Map(prev);
         newMap.delete(socketId);
         return newMap;
       });
-      
+
       // Remove remote streams from this peer
       setRemoteStreams(prev => {
-        const newMap = new Map();
+        const newMap = new Map<string, RemoteStream>();
         prev.forEach((value, key) => {
           if (value.peerId !== socketId) {
             newMap.set(key, value);
@@ -174,172 +459,136 @@ export const useMediaSoup = () => {
         return newMap;
       });
     });
-  };
-
-  // Setup send transport
-  const setupSendTransport = (transport, transportId) => {
-    transport.on('connect', async ({ dtlsParameters }, callback, errback) => {
-      try {
-        socketRef.current.emit('connect-transport', {
-          transportId,
-          dtlsParameters
-        });
-        callback();
-      } catch (error) {
-        errback(error);
-      }
-    });
+  }, [token, consumeProducer, joinRoom, startProducing]);
 
-    transport.on('produce', async (parameters, callback, errback) => {
-      try {
-        socketRef.current.emit('produce', {
-          transportId,
-          kind: parameters.kind,
-          rtpParameters: parameters.rtpParameters,
-          appData: parameters.appData
-        });
-
-        socketRef.current.once('producer-created', ({ producerId }) => {
-          callback({ id: producerId });
-        });
-      } catch (error) {
-        errback(error);
-      }
-    });
-  };
-
-  // Setup receive transport
-  const setupRecvTransport = (transport, transportId) => {
-    transport.on('connect', async ({ dtlsParameters }, callback, errback) => {
-      try {
-        socketRef.current.emit('connect-transport', {
-          transportId,
-          dtlsParameters
-        });
-        callback();
-      } catch (error) {
-        errback(error);
-      }
-    });
-  };
-
-  // Join room
-  const joinRoom = useCallback((roomId, name) => {
-    if (!socketRef.current || !deviceRef.current) {
-      console.error('Socket or device not ready');
-      return;
+  // Get user media
+  const getUserMedia = useCallback(async (constraints: MediaStreamConstraints = { video: true, audio: true }) => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      return stream;
+    } catch (error) {
+      console.error('Failed to get user media:', error);
+      throw error;
     }
+  }, []);
 
-    socketRef.current.emit('join-room', { roomId, name });
-    setIsJoined(true);
-
-    // Create transports
-    setTimeout(() => {
-      socketRef.current.emit('create-transport', { direction: 'send' });
-      socketRef.current.emit('create-transport', { direction: 'recv' });
-    }, 1000);
-
-    // Get existing producers after joining
-    setTimeout(() => {
-      socketRef.current.emit('get-producers');
-    }, 2000);
+  // Close a producer here and on the server, so the room drops its consumers
+  const closeProducer = useCallback((producer: Producer) => {
+    producer.close();
+    socketRef.current?.emit('close-producer', { producerId: producer.id });
   }, []);
 
-  // Start producing (share camera/mic)
-  const startProducing = useCallback(async (stream) => {
+  // Stop presenting
+  const stopScreenShare = useCallback(() => {
+    screenProducersRef.current.forEach(closeProducer);
+    screenProducersRef.current = [];
+    screenStreamRef.current?.getTracks().forEach(track => track.stop());
+    screenStreamRef.current = null;
+    setIsScreenSharing(false);
+  }, [closeProducer]);
+
+  // Present the screen (and system audio, if offered) next to the webcam
+  const startScreenShare = useCallback(async () => {
     if (!sendTransportRef.current) {
       console.error('Send transport not ready');
       return;
     }
 
     try {
-      setLocalStream(stream);
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+      screenStreamRef.current = stream;
 
       for (const track of stream.getTracks()) {
-        const producer = await sendTransportRef.current.produce({ track });
-        producersRef.current.set(producer.id, producer);
+        const producer = await sendTransportRef.current.produce({ track, appData: { source: 'screen' } });
+        screenProducersRef.current.push(producer);
 
-        producer.on('trackended', () => {
-          console.log('Track ended');
-        });
-
-        producer.on('transportclose', () => {
-          console.log('Transport closed');
-        });
+        // The browser's own "Stop sharing" button ends the track
+        producer.on('trackended', stopScreenShare);
       }
+      setIsScreenSharing(true);
     } catch (error) {
-      console.error('Failed to start producing:', error);
-    }
-  }, []);
-
-  // Consume a producer
-  const consumeProducer = useCallback((producerId) => {
-    if (!recvTransportRef.current || !deviceRef.current) {
-      console.error('Receive transport or device not ready');
-      return;
-    }
-
-    socketRef.current.emit('consume', {
-      transportId: recvTransportRef.current.id,
-      producerId,
-      rtpCapabilities: deviceRef.current.rtpCapabilities
-    });
-  }, []);
-
-  // Get user media
-  const getUserMedia = useCallback(async (constraints = { video: true, audio: true }) => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia(constraints);
-      return stream;
-    } catch (error) {
-      console.error('Failed to get user media:', error);
-      throw error;
+      console.error('Failed to share screen:', error);
+      stopScreenShare();
     }
-  }, []);
+  }, [stopScreenShare]);
 
   // Stop producing
   const stopProducing = useCallback(() => {
-    producersRef.current.forEach(producer => {
-      producer.close();
-    });
+    stopScreenShare();
+
+    producersRef.current.forEach(closeProducer);
     producersRef.current.clear();
-    
-    if (localStream) {
-      localStream.getTracks().forEach(track => track.stop());
+
+    if (localStreamRef.current) {
+      localStreamRef.current.getTracks().forEach(track => track.stop());
+      localStreamRef.current = null;
       setLocalStream(null);
     }
-  }, [localStream]);
+  }, [stopScreenShare, closeProducer]);
 
-  // Disconnect
-  const disconnect = useCallback(() => {
-    if (socketRef.current) {
-      socketRef.current.disconnect();
-    }
-    
+  // Leave the room but keep the connection for joining another one
+  const leaveRoom = useCallback(() => {
     stopProducing();
-    
+
     consumersRef.current.forEach(consumer => {
       consumer.close();
     });
     consumersRef.current.clear();
-    
+
+    sendTransportRef.current?.close();
+    sendTransportRef.current = null;
+    recvTransportRef.current?.close();
+    recvTransportRef.current = null;
+    chatProducerRef.current = null;
+
+    socketRef.current?.emit('leave-room');
+    joinedRoomRef.current = null;
+
     setRemoteStreams(new Map());
     setPeers(new Map());
-    setIsConnected(false);
+    setActiveSpeakerId(null);
+    setSpeakingPeerIds(new Set());
+    setIsRecording(false);
+    setChatMessages([]);
+    setChatOverDataChannel(false);
     setIsJoined(false);
   }, [stopProducing]);
 
+  // Disconnect
+  const disconnect = useCallback(() => {
+    leaveRoom();
+
+    if (socketRef.current) {
+      socketRef.current.disconnect();
+      socketRef.current = null;
+    }
+
+    setIsConnected(false);
+  }, [leaveRoom]);
+
   return {
     isConnected,
+    selfId,
     isJoined,
+    isWaitingInLobby,
     localStream,
     remoteStreams,
     peers,
+    isScreenSharing,
+    activeSpeakerId,
+    speakingPeerIds,
+    isRecording,
+    chatMessages,
+    chatOverDataChannel,
+    sendChatMessage,
     connect,
     joinRoom,
+    leaveRoom,
     getUserMedia,
     startProducing,
     stopProducing,
+    startScreenShare,
+    stopScreenShare,
     disconnect
   };
-};
\ No newline at end of file
+};
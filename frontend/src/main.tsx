@@ -4,9 +4,16 @@ import "./index.css";
 import App from "./App.tsx";
 import { SocketProvider } from "./context/socketProvider.tsx";
 
+// Tokens are handed out through a ?token= link and remembered for later visits
+const tokenFromUrl = new URLSearchParams(window.location.search).get("token");
+if (tokenFromUrl) {
+  localStorage.setItem("token", tokenFromUrl);
+}
+const token = tokenFromUrl ?? localStorage.getItem("token");
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <SocketProvider>
+    <SocketProvider token={token}>
       <App />
     </SocketProvider>
   </StrictMode>
@@ -1,12 +1,26 @@
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { v4 as uuidv4 } from "uuid";
 
 function Main() {
-const navigate = useNavigate();
+  const navigate = useNavigate();
+  const [roomId, setRoomId] = useState("");
+  const [displayName, setDisplayName] = useState("");
+
+  // Fall back to a fresh room so a new stream never lands in someone else's call
+  const goTo = (page: string) => {
+    const room = encodeURIComponent(roomId.trim() || uuidv4());
+    const query = displayName.trim() ? `?name=${encodeURIComponent(displayName.trim())}` : "";
+    navigate(`/${page}/${room}${query}`);
+  };
 
   return (
     <div id="menu">
-      <button onClick={() => navigate("/stream")}> Stream </button>
-      <button onClick={() => navigate("/watch")}> Watch </button>
+      <input placeholder="Room ID" value={roomId} onChange={(e) => setRoomId(e.target.value)} />
+      <input placeholder="Your Name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+      <button onClick={() => goTo("stream")}> Stream </button>
+      <button onClick={() => goTo("watch")} disabled={!roomId.trim()}> Watch </button>
+      <button onClick={() => goTo("call")}> Call </button>
     </div>
   );
 }
@@ -1,18 +1,176 @@
-import { useContext, useEffect, useRef, useState, useCallback } from "react";
-import { SocketContext } from "../context/socket";
+import { useContext, useEffect, useMemo, useRef, useState, useCallback, type FormEvent } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { SocketContext, SERVER_URL } from "../context/socket";
 import { Device } from 'mediasoup-client';
-import type { Transport, Producer, Consumer } from 'mediasoup-client/lib/types';
+import type { Transport, Producer, Consumer, DataProducer } from 'mediasoup-client/types';
+import { CHAT_LABEL } from "shared";
+import type {
+  ActiveSpeaker,
+  AudioLevel,
+  ChatMessage,
+  ConsumerLayersChanged,
+  ConsumerScore,
+  EgressInfo,
+  IngestInfo,
+  JoinedRoom,
+  LobbyRequest,
+  ModerationEvent,
+  PeerInfo,
+  PeerRoleChanged,
+  ProducerInfo,
+  ProducerPausedInfo,
+  ProducerScore,
+  ProducerSource,
+  RecordingInfo,
+  Role,
+  RoomInfo
+} from "shared";
+import ChatPanel from "../components/ChatPanel";
+import LobbyPanel from "../components/LobbyPanel";
+import LobbyScreen from "../components/LobbyScreen";
+import ParticipantList from "../components/ParticipantList";
+import { addChatMessages, parseChatMessage } from "../utils/chat";
+import { withRetry } from "../utils/retry";
+import { getSpatialLayerForWidth, getWebcamProduceOptions } from "../utils/videoLayers";
 
+interface RemoteTrack {
+  consumerId: string;
+  producerId: string;
+  source: ProducerSource;
+  track: MediaStreamTrack;
+  paused: boolean;
+  // Receive quality from 0 to 10, and the spatial layer being forwarded
+  score?: number;
+  spatialLayer?: number | null;
+}
+
+// How long a transport may stay disconnected before we restart ICE. Short
+// blips usually recover on their own.
+const ICE_DISCONNECTED_TIMEOUT = 3000;
+
+// Receive at most this much with data saver on, enough for low layers and audio
+const DATA_SAVER_BITRATE = 250000;
+
+// One remote participant, with all of their tracks in a single stream.
+// A participant's screen share gets a stream of its own.
 interface RemoteStream {
   id: string;
   stream: MediaStream;
   socketId: string;
-  producerId: string;
+  displayName: string;
+  isScreen: boolean;
+  tracks: RemoteTrack[];
+}
+
+// A consume that failed for good, shown on its participant's tile with a retry
+interface FailedProducer {
+  info: ProducerInfo;
+  message: string;
+}
+
+// Actions whose errors are shown next to their controls
+type Action = "stream" | "webcam" | "mic" | "screen" | "dataSaver" | "recording" | "lock" | "lobby" | "moderation" | "egress" | "ingest" | "chat";
+
+// What a host did, as everyone in the room reads it
+function describeModeration({ action, byName, peerId, peerName }: ModerationEvent, selfId: string | null): string {
+  const target = peerId === selfId ? "you" : peerName;
+  switch (action) {
+    case "kick": return `${byName} removed ${target} from the room`;
+    case "muteAll": return `${byName} muted everyone`;
+    case "stopVideo": return `${byName} stopped ${peerId === selfId ? "your" : `${peerName}'s`} video`;
+    case "transferHost": return `${byName} made ${target} the host`;
+  }
+}
+
+const getStreamId = (socketId: string, isScreen: boolean) => isScreen ? `${socketId}-screen` : socketId;
+
+// A copy of a record without one of its keys
+function omitKey<R extends object>(record: R, key: keyof R): R {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+// Add a consumed track to its participant's stream, creating the participant on its first track
+function addRemoteTrack(streams: RemoteStream[], info: ProducerInfo, track: RemoteTrack): RemoteStream[] {
+  const isScreen = track.source === 'screen';
+  const existing = streams.find(s => s.socketId === info.socketId && s.isScreen === isScreen);
+  if (existing?.tracks.some(t => t.producerId === track.producerId)) {
+    console.warn("Track already exists, skipping");
+    return streams;
+  }
+
+  const tracks = [...(existing?.tracks ?? []), track];
+  const updated: RemoteStream = {
+    id: getStreamId(info.socketId, isScreen),
+    socketId: info.socketId,
+    displayName: info.displayName,
+    isScreen,
+    tracks,
+    stream: new MediaStream(tracks.map(t => t.track))
+  };
+  return existing ? streams.map(s => s === existing ? updated : s) : [...streams, updated];
+}
+
+// Remove matching tracks, and participants that have none left
+function removeRemoteTracks(streams: RemoteStream[], matches: (track: RemoteTrack) => boolean): RemoteStream[] {
+  return streams.flatMap(s => {
+    if (!s.tracks.some(matches)) return [s];
+
+    const tracks = s.tracks.filter(t => !matches(t));
+    return tracks.length > 0 ? [{ ...s, tracks, stream: new MediaStream(tracks.map(t => t.track)) }] : [];
+  });
+}
+
+// Update the matching remote tracks, e.g. when one is paused or its score changes
+function updateRemoteTracks(
+  streams: RemoteStream[],
+  matches: (track: RemoteTrack) => boolean,
+  changes: Partial<RemoteTrack>
+): RemoteStream[] {
+  return streams.map(s => s.tracks.some(matches)
+    ? { ...s, tracks: s.tracks.map(t => matches(t) ? { ...t, ...changes } : t) }
+    : s);
+}
+
+interface RemoteVideoProps {
+  remoteStream: RemoteStream;
+  isLarge: boolean;
+  isSpeaking?: boolean;
+  onClick?: () => void;
+  onPreferredLayer: (consumerId: string, spatialLayer: number) => void;
+  // Only set for hosts, who can mute other participants
+  onPauseProducer?: (producerId: string) => void;
+  // Why some of the participant's media is missing, or a host action on it failed
+  error?: string;
+  onRetry?: () => void;
+}
+
+// Why the last try of an action failed
+function ActionError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p style={{ color: "#721c24", fontSize: "12px", margin: "5px 0" }}>{message}</p>;
 }
 
 // Separate component for remote video to handle srcObject properly
-function RemoteVideo({ remoteStream }: { remoteStream: RemoteStream }) {
+function RemoteVideo({ remoteStream, isLarge, isSpeaking, onClick, onPreferredLayer, onPauseProducer, error, onRetry }: RemoteVideoProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const videoTrack = remoteStream.tracks.find(t => t.track.kind === "video");
+  const audioTrack = remoteStream.tracks.find(t => t.track.kind === "audio");
+  const isCameraOff = !videoTrack || videoTrack.paused;
+  const videoConsumerId = videoTrack?.consumerId;
+  
+  // Receive the layer that fits the tile as it is drawn, not full resolution everywhere
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoConsumerId) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      onPreferredLayer(videoConsumerId, getSpatialLayerForWidth(entry.contentRect.width));
+    });
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, [videoConsumerId, onPreferredLayer]);
   
   useEffect(() => {
     const video = videoRef.current;
@@ -40,50 +198,155 @@ function RemoteVideo({ remoteStream }: { remoteStream: RemoteStream }) {
         video.srcObject = null;
       }
     };
-  }, [remoteStream]);
+  }, [remoteStream.id, remoteStream.stream]);
   
   return (
-    <div style={{ textAlign: "center" }}>
+    <div style={{
+      textAlign: "center",
+      gridColumn: isLarge ? "1 / -1" : undefined,
+      outline: isSpeaking ? "3px solid #ffc107" : undefined
+    }}>
+      {/* The video element keeps playing the audio while the camera is off */}
+      {isCameraOff && (
+        <div onClick={onClick} style={{
+          width: "300px",
+          height: "200px",
+          margin: "0 auto",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          backgroundColor: "#343a40",
+          color: "white",
+          fontSize: "48px",
+          border: "2px solid #007bff",
+          cursor: onClick ? "pointer" : undefined
+        }}>
+          {remoteStream.displayName.charAt(0).toUpperCase()}
+        </div>
+      )}
       <video
         ref={videoRef}
         autoPlay
         playsInline
-        style={{
+        onClick={onClick}
+        style={isCameraOff ? { display: "none" } : isLarge ? {
+          width: "100%",
+          maxWidth: "960px",
+          backgroundColor: "#000",
+          border: `2px solid ${remoteStream.isScreen ? "#28a745" : "#007bff"}`,
+          cursor: onClick ? "pointer" : undefined
+        } : {
           width: "300px",
           height: "200px",
           backgroundColor: "#000",
-          border: "2px solid #007bff"
+          border: "2px solid #007bff",
+          cursor: onClick ? "pointer" : undefined
         }}
         onLoadedMetadata={() => console.log(`Video metadata loaded for ${remoteStream.id}`)}
         onCanPlay={() => console.log(`Video can play for ${remoteStream.id}`)}
         onError={(e) => console.error(`Video error for ${remoteStream.id}:`, e)}
       />
-      <p>Stream from: {remoteStream.socketId}</p>
+      <p>
+        {remoteStream.isScreen ? `${remoteStream.displayName} is presenting` : remoteStream.displayName}
+        {audioTrack?.paused && " 🔇"}
+        {isCameraOff && !remoteStream.isScreen && " (camera off)"}
+      </p>
+      {error && (
+        <p style={{ color: "#721c24", fontSize: "12px" }}>
+          {error}
+          {onRetry && <button onClick={onRetry} style={{ marginLeft: "10px" }}>Retry</button>}
+        </p>
+      )}
+      {onPauseProducer && (
+        <div>
+          {audioTrack && !audioTrack.paused && (
+            <button onClick={() => onPauseProducer(audioTrack.producerId)}>Mute</button>
+          )}
+          {videoTrack && !videoTrack.paused && (
+            <button onClick={() => onPauseProducer(videoTrack.producerId)}>
+              {remoteStream.isScreen ? "Pause presentation" : "Turn camera off"}
+            </button>
+          )}
+        </div>
+      )}
       <p style={{ fontSize: "12px", color: "#666" }}>
-        Producer: {remoteStream.producerId}
+        {remoteStream.tracks.map(t => t.source).join(" + ")}
+        {videoTrack?.score !== undefined && ` | Quality: ${videoTrack.score}/10`}
+        {videoTrack?.spatialLayer != null && ` | Layer: ${videoTrack.spatialLayer}`}
       </p>
     </div>
   );
 }
 
 function Stream() {
-  const { socket } = useContext(SocketContext);
+  const { socket, identity } = useContext(SocketContext);
+  const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+  const displayName = searchParams.get("name");
+  // ?codec=vp9 sends the webcam as one VP9 SVC stream instead of VP8 simulcast
+  const scalability = searchParams.get("codec") === "vp9" ? "svc" : "simulcast";
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const [device, setDevice] = useState<Device | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [producerTransport, setProducerTransport] = useState<Transport | null>(null);
   const [consumerTransport, setConsumerTransport] = useState<Transport | null>(null);
-  const [producer, setProducer] = useState<Producer | null>(null);
+  const [localProducers, setLocalProducers] = useState<Producer[]>([]);
+  const [screenProducers, setScreenProducers] = useState<Producer[]>([]);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<RemoteStream[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [isMicMuted, setIsMicMuted] = useState(false);
+  const [uploadScores, setUploadScores] = useState<Record<string, number>>({}); // producerId -> score
+  const [dataSaver, setDataSaver] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
   const [initializationError, setInitializationError] = useState<string | null>(null);
-  const [pendingProducers, setPendingProducers] = useState<Array<{producerId: string, socketId: string}>>([]);
+  const [actionErrors, setActionErrors] = useState<Partial<Record<Action, string>>>({});
+  const [failedProducers, setFailedProducers] = useState<Record<string, FailedProducer>>({}); // producerId -> why
+  const [producerErrors, setProducerErrors] = useState<Record<string, string>>({}); // producerId -> failed host action
+  const [pendingProducers, setPendingProducers] = useState<ProducerInfo[]>([]);
+  const [rebuildCount, setRebuildCount] = useState(0);
+  // Ours, kept across reconnects. It is the socket id we first joined with.
+  const [peerId, setPeerId] = useState<string | null>(null);
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null); // socketId
+  const [speakingIds, setSpeakingIds] = useState<Set<string>>(new Set()); // socketIds
+  const [recording, setRecording] = useState<RecordingInfo | null>(null);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [passwordInput, setPasswordInput] = useState("");
+  // Waiting in the room's lobby for a host, or turned away
+  const [lobbyStatus, setLobbyStatus] = useState<"waiting" | "denied" | null>(null);
+  const [lobbyRequests, setLobbyRequests] = useState<LobbyRequest[]>([]); // hosts: who is waiting
+  const [peers, setPeers] = useState<PeerInfo[]>([]); // everyone else in the room
+  // Set once a host hands the role over, the token's role until then
+  const [ownRole, setOwnRole] = useState<Role | null>(null);
+  const [moderationNotice, setModerationNotice] = useState<string | null>(null);
+  const [egressOutputs, setEgressOutputs] = useState<EgressInfo[]>([]);
+  const [rtmpUrl, setRtmpUrl] = useState("");
+  const [ingests, setIngests] = useState<IngestInfo[]>([]);
+  const [ingestName, setIngestName] = useState("");
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatOverDataChannel, setChatOverDataChannel] = useState(false);
   
   // Use refs to store data that doesn't need to trigger re-renders
   const consumersRef = useRef<Map<string, Consumer>>(new Map());
   const consumedProducersRef = useRef<Set<string>>(new Set());
+  const preferredLayersRef = useRef<Map<string, number>>(new Map()); // consumerId -> spatial layer
   const isInitializingRef = useRef(false);
+  const hasJoinedRef = useRef(false);
+  const sessionIdRef = useRef<string | null>(null);
+  // Kept out of joinRoom's dependencies, typing it must not start a join
+  const roomPasswordRef = useRef<string | undefined>(undefined);
+  const resumeStreamingRef = useRef(false);
+  const chatProducerRef = useRef<DataProducer | null>(null);
+  const role = ownRole ?? identity?.role ?? null;
+  const isHost = role === "host";
+
+  // Show why an action failed next to its control, or clear it with null
+  const setActionError = useCallback((action: Action, message: string | null) => {
+    setActionErrors(prev => message ? { ...prev, [action]: message } : omitKey(prev, action));
+  }, []);
 
   // Get user media permissions with better error handling
   const getPermissions = useCallback(async (): Promise<MediaStream> => {
@@ -113,22 +376,64 @@ function Stream() {
     }
   }, []);
 
+  const applyJoined = useCallback((joined: JoinedRoom) => {
+    sessionIdRef.current = joined.sessionId;
+    setPeerId(joined.peerId);
+    setRoom(joined.room);
+    setPeers(joined.peers);
+    setOwnRole(null);
+  }, []);
+
+  // Join the room from the URL before asking for its router. Resolves to
+  // false when we have to wait in the lobby, lobbyAdmitted picks up from there.
+  const joinRoom = useCallback(async () => {
+    if (!socket) throw new Error("Socket not connected");
+    if (!roomId) throw new Error("Missing room ID");
+
+    const result = await withRetry(() => socket.emitWithAck("joinRoom", {
+      roomId,
+      displayName,
+      password: roomPasswordRef.current
+    }));
+    if (!result.ok) {
+      setNeedsPassword(result.error.code === "WRONG_PASSWORD");
+      throw new Error(`Failed to join room: ${result.error.message}`);
+    }
+    if (!result.data.admitted) {
+      console.log(`Waiting in the lobby of room ${roomId}`);
+      setRoom(result.data.room);
+      setLobbyStatus("waiting");
+      return false;
+    }
+    applyJoined(result.data);
+
+    console.log(`Joined room ${roomId} with peers:`, result.data.peers);
+    return true;
+  }, [socket, roomId, displayName, applyJoined]);
+
   // Initialize mediasoup device with better error handling
   const initializeDevice = useCallback(async (): Promise<Device> => {
     try {
       if (!socket) throw new Error("Socket not connected");
       
       const device = new Device();
-      const routerRtpCapabilities = await socket.emitWithAck("getRouterRtpCapabilities");
+      const result = await socket.emitWithAck("getRouterRtpCapabilities");
+      
+      console.log("Router RTP Capabilities:", result);
       
-      console.log("Router RTP Capabilities:", routerRtpCapabilities);
+      if (!result.ok) {
+        throw new Error(`Server error: ${result.error.message}`);
+      }
       
       if (!device.loaded) {
-        await device.load({ routerRtpCapabilities });
+        await device.load({ routerRtpCapabilities: result.data });
       }
       
-      // Send capabilities to server
-      socket.emit("setRtpCapabilities", device.rtpCapabilities);
+      // The server needs them before we can consume anything
+      const capabilitiesResult = await withRetry(() => socket.emitWithAck("setRtpCapabilities", device.rtpCapabilities));
+      if (!capabilitiesResult.ok) {
+        throw new Error(`Server error: ${capabilitiesResult.error.message}`);
+      }
       
       setDevice(device);
       return device;
@@ -138,32 +443,63 @@ function Stream() {
     }
   }, [socket]);
 
+  // Get new ICE credentials from the server and reconnect the transport with them
+  const restartIce = useCallback(async (transport: Transport) => {
+    // Reconnecting the socket restarts ICE for whatever is still down
+    if (!socket?.connected || transport.closed) return;
+
+    try {
+      console.log(`Restarting ICE for transport ${transport.id}`);
+      const result = await socket.emitWithAck("restartIce", { transportId: transport.id });
+      if (!result.ok) {
+        throw new Error(result.error.message);
+      }
+      await transport.restartIce({ iceParameters: result.data.iceParameters });
+    } catch (error) {
+      console.error(`Error restarting ICE for transport ${transport.id}:`, error);
+    }
+  }, [socket]);
+
+  // Restart ICE when a transport fails, or stays disconnected for too long
+  const watchConnectionState = useCallback((transport: Transport) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    transport.on("connectionstatechange", (state) => {
+      console.log(`Transport ${transport.id} connection state: ${state}`);
+      clearTimeout(timer);
+
+      if (state === "failed") {
+        restartIce(transport);
+      } else if (state === "disconnected") {
+        timer = setTimeout(() => {
+          if (transport.connectionState === "disconnected") restartIce(transport);
+        }, ICE_DISCONNECTED_TIMEOUT);
+      }
+    });
+  }, [restartIce]);
+
   // Create producer transport with improved error handling
   const createProducerTransport = useCallback(async (device: Device): Promise<Transport> => {
     try {
       if (!socket) throw new Error("Socket not connected");
       
       console.log("Requesting producer transport...");
-      const transportOptions = await socket.emitWithAck("createProducerTransport");
-      
-      console.log("Producer transport options received:", transportOptions);
+      const result = await withRetry(() => socket.emitWithAck("createProducerTransport"));
       
-      if (transportOptions.error) {
-        throw new Error(`Server error: ${transportOptions.error}`);
-      }
+      console.log("Producer transport options received:", result);
       
-      if (!transportOptions.id) {
-        throw new Error("Missing transport ID in server response");
+      if (!result.ok) {
+        throw new Error(`Server error: ${result.error.message}`);
       }
       
-      const transport = device.createSendTransport(transportOptions);
+      const transport = device.createSendTransport(result.data);
       
       transport.on("connect", async ({ dtlsParameters }, callback, errback) => {
         try {
           console.log("Connecting producer transport...");
           const result = await socket.emitWithAck("connectProducerTransport", { dtlsParameters });
-          if (result.error) {
-            throw new Error(result.error);
+          if (!result.ok) {
+            throw new Error(result.error.message);
           }
           callback();
         } catch (error) {
@@ -172,20 +508,39 @@ function Stream() {
         }
       });
 
-      transport.on("produce", async ({ kind, rtpParameters }, callback, errback) => {
+      transport.on("produce", async ({ kind, rtpParameters, appData }, callback, errback) => {
         try {
           console.log("Producing media...");
-          const result = await socket.emitWithAck("produce", { kind, rtpParameters });
-          if (result.error) {
-            throw new Error(result.error);
+          const result = await socket.emitWithAck("produce", {
+            kind,
+            rtpParameters,
+            appData: { source: appData.source as ProducerSource }
+          });
+          if (!result.ok) {
+            throw new Error(result.error.message);
           }
-          callback({ id: result.id });
+          callback({ id: result.data.id });
         } catch (error) {
           console.error("Error producing:", error);
           errback(error instanceof Error ? error : new Error(String(error)));
         }
       });
 
+      transport.on("producedata", async ({ sctpStreamParameters, protocol }, callback, errback) => {
+        try {
+          // Chat is the only DataChannel we open
+          const result = await socket.emitWithAck("produceData", { sctpStreamParameters, label: CHAT_LABEL, protocol });
+          if (!result.ok) {
+            throw new Error(result.error.message);
+          }
+          callback({ id: result.data.id });
+        } catch (error) {
+          console.error("Error producing data:", error);
+          errback(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+
+      watchConnectionState(transport);
       setProducerTransport(transport);
       console.log("Producer transport created successfully");
       return transport;
@@ -193,7 +548,7 @@ function Stream() {
       console.error("Error creating producer transport:", error);
       throw error;
     }
-  }, [socket]);
+  }, [socket, watchConnectionState]);
 
   // Create consumer transport with improved error handling
   const createConsumerTransport = useCallback(async (device: Device): Promise<Transport> => {
@@ -201,26 +556,22 @@ function Stream() {
       if (!socket) throw new Error("Socket not connected");
       
       console.log("Requesting consumer transport...");
-      const transportOptions = await socket.emitWithAck("createConsumerTransport");
+      const result = await withRetry(() => socket.emitWithAck("createConsumerTransport"));
       
-      console.log("Consumer transport options received:", transportOptions);
+      console.log("Consumer transport options received:", result);
       
-      if (transportOptions.error) {
-        throw new Error(`Server error: ${transportOptions.error}`);
+      if (!result.ok) {
+        throw new Error(`Server error: ${result.error.message}`);
       }
       
-      if (!transportOptions.id) {
-        throw new Error("Missing transport ID in server response");
-      }
-      
-      const transport = device.createRecvTransport(transportOptions);
+      const transport = device.createRecvTransport(result.data);
       
       transport.on("connect", async ({ dtlsParameters }, callback, errback) => {
         try {
           console.log("Connecting consumer transport...");
           const result = await socket.emitWithAck("connectConsumerTransport", { dtlsParameters });
-          if (result.error) {
-            throw new Error(result.error);
+          if (!result.ok) {
+            throw new Error(result.error.message);
           }
           callback();
         } catch (error) {
@@ -229,6 +580,7 @@ function Stream() {
         }
       });
 
+      watchConnectionState(transport);
       setConsumerTransport(transport);
       console.log("Consumer transport created successfully");
       return transport;
@@ -236,7 +588,7 @@ function Stream() {
       console.error("Error creating consumer transport:", error);
       throw error;
     }
-  }, [socket]);
+  }, [socket, watchConnectionState]);
 
   // Start producing (streaming) with better error handling
   const startStreaming = useCallback(async () => {
@@ -247,29 +599,261 @@ function Stream() {
 
       const stream = localStream || await getPermissions();
       const videoTrack = stream.getVideoTracks()[0];
+      const audioTrack = stream.getAudioTracks()[0];
       
       if (!videoTrack) {
         throw new Error("No video track found");
       }
 
-      const producer = await producerTransport.produce({ track: videoTrack });
-      setProducer(producer);
+      // Tag each producer so receivers know what they are getting
+      const produced = [await producerTransport.produce({
+        track: videoTrack,
+        ...getWebcamProduceOptions(device, scalability),
+        appData: { source: 'webcam' }
+      })];
+      if (audioTrack) {
+        produced.push(await producerTransport.produce({ track: audioTrack, appData: { source: 'mic' } }));
+      }
+      setLocalProducers(produced);
+      setIsCameraOff(false);
+      setIsMicMuted(false);
+      setUploadScores({});
       setIsStreaming(true);
+      setActionError("stream", null);
       
-      console.log("Started streaming with producer:", producer.id);
+      console.log("Started streaming with producers:", produced.map(p => p.id));
     } catch (error) {
       console.error("Error starting stream:", error);
-      setInitializationError(`Failed to start streaming: ${error}`);
+      setActionError("stream", `Failed to start streaming: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [device, producerTransport, localStream, getPermissions, scalability, setActionError]);
+
+  // Close a producer here and on the server, so the room gets producerClosed
+  const closeLocalProducer = useCallback(async (producer: Producer) => {
+    producer.close();
+    setUploadScores(prev => {
+      const next = { ...prev };
+      delete next[producer.id];
+      return next;
+    });
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("closeProducer", { producerId: producer.id });
+    if (!result.ok) {
+      console.error(`Error closing producer ${producer.id}:`, result.error.message);
     }
-  }, [device, producerTransport, localStream, getPermissions]);
+  }, [socket]);
+
+  // Reflect a local producer's paused state in the camera and mic controls
+  const markLocalPaused = useCallback((producer: Producer, paused: boolean) => {
+    if (producer.appData.source === 'webcam') setIsCameraOff(paused);
+    if (producer.appData.source === 'mic') setIsMicMuted(paused);
+  }, []);
+
+  // Turn the camera or mic off without closing its producer, the room gets producerPaused
+  const toggleLocalProducer = useCallback(async (source: 'webcam' | 'mic') => {
+    const producer = localProducers.find(p => p.appData.source === source);
+    if (!producer || !socket) return;
+
+    const pause = !producer.paused;
+    // Stop sending right away, the server only has to tell everyone else
+    if (pause) {
+      producer.pause();
+    } else {
+      producer.resume();
+    }
+    markLocalPaused(producer, pause);
+
+    const result = await socket.emitWithAck(pause ? "pauseProducer" : "resumeProducer", { producerId: producer.id });
+    if (!result.ok) {
+      console.error(`Error ${pause ? "pausing" : "resuming"} producer ${producer.id}:`, result.error.message);
+      setActionError(source, `The room was not told: ${result.error.message}`);
+      return;
+    }
+    setActionError(source, null);
+  }, [localProducers, socket, markLocalPaused, setActionError]);
+
+  // Hosts: pause someone else's producer, e.g. to mute a noisy participant
+  const pauseRemoteProducer = useCallback(async (producerId: string) => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("pauseProducer", { producerId });
+    if (!result.ok) {
+      console.error(`Error pausing producer ${producerId}:`, result.error.message);
+      setProducerErrors(prev => ({ ...prev, [producerId]: `Could not mute: ${result.error.message}` }));
+      return;
+    }
+    setProducerErrors(prev => omitKey(prev, producerId));
+    setRemoteStreams(prev => updateRemoteTracks(prev, t => t.producerId === producerId, { paused: true }));
+  }, [socket]);
+
+  // Ask the server for one simulcast/SVC layer of a consumer, once per change
+  const setPreferredLayer = useCallback(async (consumerId: string, spatialLayer: number) => {
+    if (!socket || preferredLayersRef.current.get(consumerId) === spatialLayer) return;
+
+    preferredLayersRef.current.set(consumerId, spatialLayer);
+    const result = await socket.emitWithAck("setConsumerPreferredLayers", { consumerId, spatialLayer });
+    if (!result.ok) {
+      console.error(`Error setting preferred layer for consumer ${consumerId}:`, result.error.message);
+      preferredLayersRef.current.delete(consumerId);
+    }
+  }, [socket]);
+
+  // Data saver: have the server keep what we receive under a low bitrate
+  const toggleDataSaver = useCallback(async () => {
+    if (!socket) return;
+
+    const enabled = !dataSaver;
+    const result = await socket.emitWithAck("setBandwidthCap", { maxBitrate: enabled ? DATA_SAVER_BITRATE : null });
+    if (!result.ok) {
+      console.error("Error setting bandwidth cap:", result.error.message);
+      setActionError("dataSaver", `Data saver unavailable: ${result.error.message}`);
+      return;
+    }
+    setActionError("dataSaver", null);
+    setDataSaver(enabled);
+  }, [socket, dataSaver, setActionError]);
+
+  // Try joining again with the password the room asked for
+  const submitPassword = useCallback((event: FormEvent) => {
+    event.preventDefault();
+    roomPasswordRef.current = passwordInput;
+    setNeedsPassword(false);
+    setRebuildCount(count => count + 1);
+  }, [passwordInput]);
+
+  // Hosts: let someone in from the lobby, or not
+  const decideLobbyRequest = useCallback(async (socketId: string, admit: boolean) => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck(admit ? "admit" : "deny", { socketId });
+    if (!result.ok) {
+      console.error("Error answering lobby request:", result.error.message);
+      setActionError("lobby", `Could not ${admit ? "admit" : "deny"}: ${result.error.message}`);
+      return;
+    }
+    setActionError("lobby", null);
+  }, [socket, setActionError]);
+
+  // Hosts: kick someone, stop their video or make them the host. Everyone
+  // gets the moderation event, and peerLeft or peerRoleChanged.
+  const moderatePeer = useCallback(async (action: "kickPeer" | "stopVideo" | "transferHost", targetId: string) => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck(action, { peerId: targetId });
+    if (!result.ok) {
+      console.error(`Error in ${action} for ${targetId}:`, result.error.message);
+      setActionError("moderation", `That did not work: ${result.error.message}`);
+      return;
+    }
+    setActionError("moderation", null);
+  }, [socket, setActionError]);
+
+  // Hosts: pause every microphone but ours. Everyone else hears it from producerPaused.
+  const muteEveryone = useCallback(async () => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("muteAll");
+    if (!result.ok) {
+      console.error("Error muting everyone:", result.error.message);
+      setActionError("moderation", `Could not mute everyone: ${result.error.message}`);
+      return;
+    }
+    setActionError("moderation", null);
+    const peerIds = new Set(peers.map(peer => peer.socketId));
+    setRemoteStreams(prev => prev.map(s => peerIds.has(s.socketId)
+      ? { ...s, tracks: s.tracks.map(t => t.track.kind === "audio" ? { ...t, paused: true } : t) }
+      : s));
+  }, [socket, peers, setActionError]);
+
+  // Hosts: keep everyone but other hosts from joining, everyone gets roomUpdated
+  const toggleRoomLock = useCallback(async () => {
+    if (!socket || !room) return;
+
+    const result = await socket.emitWithAck("setRoomLocked", { locked: !room.locked });
+    if (!result.ok) {
+      console.error("Error locking room:", result.error.message);
+      setActionError("lock", `Could not ${room.locked ? "unlock" : "lock"} the room: ${result.error.message}`);
+      return;
+    }
+    setActionError("lock", null);
+    setRoom(result.data);
+  }, [socket, room, setActionError]);
+
+  // Hosts: record the room on the server, everyone gets recordingStarted/recordingStopped
+  const toggleRecording = useCallback(async () => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck(recording ? "stopRecording" : "startRecording");
+    if (!result.ok) {
+      console.error("Error toggling recording:", result.error.message);
+      setActionError("recording", `Recording failed: ${result.error.message}`);
+      return;
+    }
+    setActionError("recording", null);
+  }, [socket, recording, setActionError]);
+
+  // Hosts: send the room's broadcaster out as HLS or to an RTMP server
+  const startEgress = useCallback(async (type: "hls" | "rtmp") => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("startEgress", { type, url: type === "rtmp" ? rtmpUrl : undefined });
+    if (!result.ok) {
+      console.error("Error starting egress:", result.error.message);
+      setActionError("egress", `Failed to start ${type.toUpperCase()} output: ${result.error.message}`);
+      return;
+    }
+    setActionError("egress", null);
+  }, [socket, rtmpUrl, setActionError]);
+
+  const stopEgress = useCallback(async (egressId: string) => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("stopEgress", { egressId });
+    if (!result.ok) {
+      console.error("Error stopping egress:", result.error.message);
+      setActionError("egress", `Failed to stop output: ${result.error.message}`);
+      return;
+    }
+    setActionError("egress", null);
+  }, [socket, setActionError]);
+
+  // Hosts: open ports an external encoder can push a feed into
+  const createIngest = useCallback(async () => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("createIngest", { displayName: ingestName });
+    if (!result.ok) {
+      console.error("Error creating ingest:", result.error.message);
+      setActionError("ingest", `Failed to create ingest: ${result.error.message}`);
+      return;
+    }
+    setActionError("ingest", null);
+    setIngests(prev => [...prev, result.data]);
+    setIngestName("");
+  }, [socket, ingestName, setActionError]);
+
+  const closeIngest = useCallback(async (ingestId: string) => {
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("closeIngest", { ingestId });
+    if (!result.ok) {
+      console.error("Error closing ingest:", result.error.message);
+      setActionError("ingest", `Failed to remove ingest: ${result.error.message}`);
+      return;
+    }
+    setActionError("ingest", null);
+    setIngests(prev => prev.filter(ingest => ingest.ingestId !== ingestId));
+  }, [socket, setActionError]);
 
   // Stop streaming with cleanup
   const stopStreaming = useCallback(async () => {
     try {
-      if (producer) {
-        producer.close();
-        setProducer(null);
-      }
+      localProducers.forEach(closeLocalProducer);
+      setLocalProducers([]);
+      setIsCameraOff(false);
+      setIsMicMuted(false);
+      setUploadScores({});
       
       if (localStream) {
         localStream.getTracks().forEach(track => track.stop());
@@ -285,10 +869,68 @@ function Stream() {
     } catch (error) {
       console.error("Error stopping stream:", error);
     }
-  }, [producer, localStream]);
+  }, [localProducers, localStream, closeLocalProducer]);
+
+  // Stop presenting: close the screen producers and release the capture
+  const closeScreenShare = useCallback((producers: Producer[], stream: MediaStream | null) => {
+    producers.forEach(closeLocalProducer);
+    stream?.getTracks().forEach(track => track.stop());
+    setScreenProducers([]);
+    setScreenStream(null);
+    console.log("Stopped screen sharing");
+  }, [closeLocalProducer]);
+
+  // Present the screen (and system audio, if the browser offers it) as extra producers
+  const startScreenShare = useCallback(async () => {
+    try {
+      if (!producerTransport) {
+        throw new Error("Producer transport not ready");
+      }
+
+      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+      const produced: Producer[] = [];
+      for (const track of stream.getTracks()) {
+        produced.push(await producerTransport.produce({ track, appData: { source: 'screen' } }));
+      }
+
+      // The browser's own "Stop sharing" button ends the video track
+      produced
+        .filter(producer => producer.kind === "video")
+        .forEach(producer => producer.on("trackended", () => closeScreenShare(produced, stream)));
+
+      setScreenStream(stream);
+      setScreenProducers(produced);
+      setActionError("screen", null);
+      console.log("Started screen sharing with producers:", produced.map(p => p.id));
+    } catch (error) {
+      console.error("Error sharing screen:", error);
+      setActionError("screen", `Failed to share screen: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [producerTransport, closeScreenShare, setActionError]);
+
+  // Send on our chat DataChannel when it is open, else over Socket.IO
+  const sendChatMessage = useCallback(async (text: string) => {
+    const dataProducer = chatProducerRef.current;
+    if (dataProducer?.readyState === "open") {
+      dataProducer.send(JSON.stringify({ text }));
+      setActionError("chat", null);
+      return;
+    }
+    if (!socket) return;
+
+    const result = await socket.emitWithAck("sendChatMessage", { text });
+    if (!result.ok) {
+      console.error("Error sending chat message:", result.error.message);
+      setActionError("chat", `Not sent: ${result.error.message}`);
+      return;
+    }
+    setActionError("chat", null);
+    setChatMessages(prev => addChatMessages(prev, [result.data]));
+  }, [socket, setActionError]);
 
   // Consume a remote stream - memoized to prevent infinite loops
-  const consumeStream = useCallback(async (producerId: string, socketId: string) => {
+  const consumeStream = useCallback(async (info: ProducerInfo) => {
+    const { producerId, socketId } = info;
     try {
       // Check if already consumed
       if (consumedProducersRef.current.has(producerId)) {
@@ -310,31 +952,27 @@ function Stream() {
       // Mark as being consumed to prevent duplicates
       consumedProducersRef.current.add(producerId);
       
-      // Check if device can consume this producer
-      const canConsume = device.canConsume({
-        producerId,
-        rtpCapabilities: device.rtpCapabilities
-      });
-      
-      if (!canConsume) {
-        console.warn(`Cannot consume producer ${producerId} - incompatible capabilities`);
-        consumedProducersRef.current.delete(producerId);
-        return;
-      }
-      
-      const consumerOptions = await socket.emitWithAck("consume", { producerId });
-      console.log("Consumer options received:", consumerOptions);
+      const result = await withRetry(
+        () => socket.emitWithAck("consume", { producerId }),
+        async (error) => {
+          // Our capabilities never made it, send them again
+          if (error.code === "RTP_CAPABILITIES_MISSING") {
+            await socket.emitWithAck("setRtpCapabilities", device.rtpCapabilities);
+          }
+        }
+      );
+      console.log("Consumer options received:", result);
       
-      if (consumerOptions.error) {
-        throw new Error(`Server error: ${consumerOptions.error}`);
+      if (!result.ok) {
+        // Closed while we were asking, producerClosed takes care of the rest
+        if (result.error.code === "PRODUCER_NOT_FOUND") {
+          consumedProducersRef.current.delete(producerId);
+          return;
+        }
+        throw new Error(result.error.message);
       }
       
-      const consumer = await consumerTransport.consume({
-        id: consumerOptions.id,
-        producerId: consumerOptions.producerId,
-        kind: consumerOptions.kind,
-        rtpParameters: consumerOptions.rtpParameters,
-      });
+      const consumer = await consumerTransport.consume(result.data);
       
       console.log("Consumer created:", consumer.id, "Track:", consumer.track);
       
@@ -343,49 +981,34 @@ function Stream() {
       
       // Resume the consumer
       const resumeResult = await socket.emitWithAck("resumeConsumer", { consumerId: consumer.id });
-      if (resumeResult.error) {
-        throw new Error(`Error resuming consumer: ${resumeResult.error}`);
+      if (!resumeResult.ok) {
+        throw new Error(`Error resuming consumer: ${resumeResult.error.message}`);
       }
       
       console.log("Consumer resumed successfully");
       
-      // Create media stream from consumer track
-      const stream = new MediaStream([consumer.track]);
-      
-      console.log("Created stream with tracks:", stream.getTracks().length);
-      
-      // Add to remote streams
-      setRemoteStreams(prev => {
-        // Check if already exists
-        const exists = prev.find(s => s.producerId === producerId);
-        if (exists) {
-          console.warn("Stream already exists, skipping");
-          return prev;
-        }
-        
-        const newStream = {
-          id: consumer.id,
-          stream,
-          socketId,
-          producerId
-        };
-        
-        console.log("Adding remote stream:", newStream);
-        return [...prev, newStream];
-      });
+      // Add the track to the participant's stream
+      setRemoteStreams(prev => addRemoteTrack(prev, info, {
+        consumerId: consumer.id,
+        producerId,
+        source: info.appData.source,
+        track: consumer.track,
+        paused: info.paused
+      }));
+      setFailedProducers(prev => omitKey(prev, producerId));
       
       // Handle consumer events
       consumer.on("transportclose", () => {
         console.log("Consumer transport closed:", consumer.id);
         consumedProducersRef.current.delete(producerId);
-        setRemoteStreams(prev => prev.filter(s => s.id !== consumer.id));
+        setRemoteStreams(prev => removeRemoteTracks(prev, t => t.consumerId === consumer.id));
         consumersRef.current.delete(consumer.id);
       });
       
       consumer.on("trackended", () => {
         console.log("Consumer track ended:", consumer.id);
         consumedProducersRef.current.delete(producerId);
-        setRemoteStreams(prev => prev.filter(s => s.id !== consumer.id));
+        setRemoteStreams(prev => removeRemoteTracks(prev, t => t.consumerId === consumer.id));
         consumersRef.current.delete(consumer.id);
       });
       
@@ -393,6 +1016,10 @@ function Stream() {
       console.error("Error consuming stream:", error);
       // Remove from consumed list on error
       consumedProducersRef.current.delete(producerId);
+      setFailedProducers(prev => ({
+        ...prev,
+        [producerId]: { info, message: `No ${info.appData.source}: ${error instanceof Error ? error.message : error}` }
+      }));
     }
   }, [consumerTransport, socket, device]);
 
@@ -412,13 +1039,21 @@ function Stream() {
       try {
         console.log("Starting initialization...");
         
+        // A migrated room keeps its members, only the media has to be rebuilt.
+        // So does a resumed session whose transports were lost.
+        if (!hasJoinedRef.current) {
+          if (!await joinRoom()) return;
+          hasJoinedRef.current = true;
+          console.log("Joined room");
+        }
+        
         const device = await initializeDevice();
         console.log("Device initialized");
         
-        const prodTransport = await createProducerTransport(device);
+        await createProducerTransport(device);
         console.log("Producer transport created");
         
-        const consTransport = await createConsumerTransport(device);
+        await createConsumerTransport(device);
         console.log("Consumer transport created");
         
         setIsInitialized(true);
@@ -434,7 +1069,95 @@ function Stream() {
     };
 
     initialize();
-  }, [socket, initializeDevice, createProducerTransport, createConsumerTransport]);
+  }, [socket, joinRoom, initializeDevice, createProducerTransport, createConsumerTransport, rebuildCount]);
+
+  // Start producing again once a migrated room is ready
+  useEffect(() => {
+    if (!isInitialized || !resumeStreamingRef.current) return;
+
+    resumeStreamingRef.current = false;
+    startStreaming();
+  }, [isInitialized, startStreaming]);
+
+  // Chat on DataChannels once both transports are up. Until then, or if
+  // that fails, the server sends us chat over Socket.IO.
+  useEffect(() => {
+    if (!isInitialized || !socket || !producerTransport || !consumerTransport) return;
+
+    const setupChat = async () => {
+      try {
+        const result = await socket.emitWithAck("consumeData");
+        if (!result.ok) {
+          throw new Error(result.error.message);
+        }
+        const dataConsumer = await consumerTransport.consumeData(result.data);
+        dataConsumer.on("message", (data) => {
+          setChatMessages(prev => addChatMessages(prev, [parseChatMessage(data)]));
+        });
+
+        const dataProducer = await producerTransport.produceData({ label: CHAT_LABEL, ordered: true });
+        dataProducer.on("open", () => setChatOverDataChannel(true));
+        dataProducer.on("close", () => setChatOverDataChannel(false));
+        chatProducerRef.current = dataProducer;
+      } catch (error) {
+        console.warn("Chat falls back to Socket.IO:", error);
+      }
+    };
+
+    setupChat();
+
+    // Closing the transports closes the DataChannels with them
+    return () => {
+      chatProducerRef.current = null;
+      setChatOverDataChannel(false);
+    };
+  }, [isInitialized, socket, producerTransport, consumerTransport]);
+
+  // Outputs that were started before we joined
+  useEffect(() => {
+    if (!isInitialized || !socket) return;
+
+    socket.emitWithAck("listEgress").then((result) => {
+      if (!result.ok) {
+        console.error("Error listing egress:", result.error.message);
+        return;
+      }
+      setEgressOutputs(result.data);
+    });
+  }, [isInitialized, socket]);
+
+  // Hosts: whoever was waiting in the lobby before we came in
+  useEffect(() => {
+    if (!isInitialized || !socket || !isHost) return;
+
+    socket.emitWithAck("listLobby").then((result) => {
+      if (!result.ok) {
+        console.error("Error listing lobby:", result.error.message);
+        return;
+      }
+      setLobbyRequests(result.data);
+    });
+  }, [isInitialized, socket, isHost]);
+
+  // The preview from the lobby carries over into the call
+  useEffect(() => {
+    if (lobbyStatus === null && localStream && localVideoRef.current) {
+      localVideoRef.current.srcObject = localStream;
+    }
+  }, [lobbyStatus, localStream]);
+
+  // Ingests another host opened, or ours from before a reload
+  useEffect(() => {
+    if (!isInitialized || !socket || !isHost) return;
+
+    socket.emitWithAck("listIngests").then((result) => {
+      if (!result.ok) {
+        console.error("Error listing ingests:", result.error.message);
+        return;
+      }
+      setIngests(result.data);
+    });
+  }, [isInitialized, socket, isHost]);
 
   // Separate effect to handle existing producers after initialization
   useEffect(() => {
@@ -445,17 +1168,20 @@ function Stream() {
         console.log("Processing existing and pending producers...");
         
         // Get existing producers from server
-        const existingProducers = await socket.emitWithAck("getProducers");
-        console.log("Existing producers:", existingProducers);
+        const result = await socket.emitWithAck("getProducers");
+        console.log("Existing producers:", result);
+        if (!result.ok) {
+          throw new Error(result.error.message);
+        }
         
         // Combine with pending producers
-        const allProducers = [...existingProducers, ...pendingProducers];
+        const allProducers: ProducerInfo[] = [...result.data, ...pendingProducers];
         
         // Process each producer once
-        for (const { producerId, socketId } of allProducers) {
-          if (!consumedProducersRef.current.has(producerId)) {
-            console.log(`Processing producer: ${producerId} from ${socketId}`);
-            await consumeStream(producerId, socketId);
+        for (const info of allProducers) {
+          if (!consumedProducersRef.current.has(info.producerId)) {
+            console.log(`Processing producer: ${info.producerId} from ${info.socketId}`);
+            await consumeStream(info);
           }
         }
         
@@ -471,7 +1197,8 @@ function Stream() {
   }, [isInitialized, socket, device, consumerTransport, consumeStream, pendingProducers]);
 
   // Handle new producers with memoized callback
-  const handleNewProducer = useCallback(({ producerId, socketId }: { producerId: string, socketId: string }) => {
+  const handleNewProducer = useCallback((info: ProducerInfo) => {
+    const { producerId, socketId } = info;
     console.log("New producer event:", producerId, socketId);
     
     // Check if already consumed
@@ -486,13 +1213,13 @@ function Stream() {
         // Check if already in pending
         const exists = prev.find(p => p.producerId === producerId);
         if (exists) return prev;
-        return [...prev, { producerId, socketId }];
+        return [...prev, info];
       });
       return;
     }
     
     console.log("Ready to consume immediately");
-    consumeStream(producerId, socketId);
+    consumeStream(info);
   }, [isInitialized, device, consumerTransport, consumeStream]);
 
   const handleProducerClosed = useCallback(({ producerId }: { producerId: string }) => {
@@ -503,62 +1230,454 @@ function Stream() {
     
     // Remove from pending producers
     setPendingProducers(prev => prev.filter(p => p.producerId !== producerId));
+
+    // Forget whatever went wrong with it
+    setFailedProducers(prev => omitKey(prev, producerId));
+    setProducerErrors(prev => omitKey(prev, producerId));
     
-    // Remove the corresponding remote stream and clean up consumer
-    setRemoteStreams(prev => prev.filter(stream => {
-      if (stream.producerId === producerId) {
-        // Clean up consumer
-        const consumer = consumersRef.current.get(stream.id);
-        if (consumer) {
-          consumer.close();
-          consumersRef.current.delete(stream.id);
-        }
-        return false;
+    // Clean up the consumer and remove its track from the participant's stream
+    consumersRef.current.forEach((consumer, consumerId) => {
+      if (consumer.producerId === producerId) {
+        consumer.close();
+        consumersRef.current.delete(consumerId);
+        preferredLayersRef.current.delete(consumerId);
+      }
+    });
+    setRemoteStreams(prev => removeRemoteTracks(prev, t => t.producerId === producerId));
+  }, []);
+
+  // Someone turned a camera or mic off. If it was ours, a host muted us.
+  const handleProducerPaused = useCallback((info: ProducerPausedInfo) => {
+    console.log("Producer paused:", info.producerId);
+
+    if (info.socketId === peerId) {
+      const producer = [...localProducers, ...screenProducers].find(p => p.id === info.producerId);
+      if (producer) {
+        producer.pause();
+        markLocalPaused(producer, true);
       }
-      return true;
+      return;
+    }
+
+    setRemoteStreams(prev => updateRemoteTracks(prev, t => t.producerId === info.producerId, { paused: true }));
+  }, [peerId, localProducers, screenProducers, markLocalPaused]);
+
+  const handleProducerResumed = useCallback((info: ProducerPausedInfo) => {
+    console.log("Producer resumed:", info.producerId);
+    setRemoteStreams(prev => updateRemoteTracks(prev, t => t.producerId === info.producerId, { paused: false }));
+  }, []);
+
+  const handleConsumerScore = useCallback(({ consumerId, score }: ConsumerScore) => {
+    setRemoteStreams(prev => updateRemoteTracks(prev, t => t.consumerId === consumerId, { score: score.score }));
+  }, []);
+
+  const handleConsumerLayersChanged = useCallback(({ consumerId, layers }: ConsumerLayersChanged) => {
+    console.log(`Consumer ${consumerId} now receives layers:`, layers);
+    setRemoteStreams(prev => updateRemoteTracks(prev, t => t.consumerId === consumerId, {
+      spatialLayer: layers?.spatialLayer ?? null
     }));
   }, []);
 
+  // How well our own media reaches the server, one score per encoding
+  const handleProducerScore = useCallback(({ producerId, score }: ProducerScore) => {
+    if (score.length === 0) return;
+    setUploadScores(prev => ({ ...prev, [producerId]: Math.max(...score.map(s => s.score)) }));
+  }, []);
+
+  // The dominant speaker takes the spotlight. We never spotlight ourselves,
+  // the last remote speaker stays up instead.
+  const handleActiveSpeaker = useCallback(({ socketId }: ActiveSpeaker) => {
+    if (socketId !== peerId) {
+      setActiveSpeakerId(socketId);
+    }
+  }, [peerId]);
+
+  const handleAudioLevels = useCallback((levels: AudioLevel[]) => {
+    setSpeakingIds(new Set(levels.map(level => level.socketId)));
+  }, []);
+
+  const handleRecordingStarted = useCallback((info: RecordingInfo) => {
+    console.log("Recording started:", info.recordingId);
+    setRecording(info);
+  }, []);
+
+  const handleRecordingStopped = useCallback(() => {
+    console.log("Recording stopped");
+    setRecording(null);
+  }, []);
+
+  const handleEgressStarted = useCallback((egress: EgressInfo) => {
+    setEgressOutputs(prev => prev.some(e => e.egressId === egress.egressId) ? prev : [...prev, egress]);
+  }, []);
+
+  const handleEgressStopped = useCallback(({ egressId }: EgressInfo) => {
+    setEgressOutputs(prev => prev.filter(e => e.egressId !== egressId));
+  }, []);
+
+  const handleChatMessage = useCallback((message: ChatMessage) => {
+    setChatMessages(prev => addChatMessages(prev, [message]));
+  }, []);
+
+  // Comes with every getProducers, after a reconnect too
+  const handleChatHistory = useCallback((messages: ChatMessage[]) => {
+    setChatMessages(prev => addChatMessages(prev, messages));
+  }, []);
+
+  // Throw away all media state and build it again. The room's worker died
+  // and it now lives on a new router, or our session could not be resumed:
+  // everything we built before is gone. Only a lost session has to rejoin.
+  const rebuildMedia = useCallback((rejoin: boolean) => {
+    console.log(`Rebuilding transports${rejoin ? " and rejoining" : ""}`);
+
+    consumersRef.current.forEach(consumer => consumer.close());
+    consumersRef.current.clear();
+    consumedProducersRef.current.clear();
+    preferredLayersRef.current.clear();
+    setRemoteStreams([]);
+    setPendingProducers([]);
+    setFailedProducers({});
+    setProducerErrors({});
+
+    localProducers.forEach(producer => producer.close());
+    setLocalProducers([]);
+    setIsCameraOff(false);
+    setIsMicMuted(false);
+    setUploadScores({});
+    // Sharing again needs a fresh user gesture, so the screen share just ends
+    screenProducers.forEach(producer => producer.close());
+    setScreenProducers([]);
+    screenStream?.getTracks().forEach(track => track.stop());
+    setScreenStream(null);
+    resumeStreamingRef.current = isStreaming;
+    setIsStreaming(false);
+
+    // Replacing the transports closes the old ones
+    setProducerTransport(null);
+    setConsumerTransport(null);
+    setDevice(null);
+    setIsInitialized(false);
+    if (rejoin) {
+      hasJoinedRef.current = false;
+      sessionIdRef.current = null;
+    }
+    setRebuildCount(count => count + 1);
+  }, [localProducers, screenProducers, screenStream, isStreaming]);
+
+  // A host let us in from the lobby: set up media like after joining
+  const handleLobbyAdmitted = useCallback((joined: JoinedRoom) => {
+    console.log("Admitted to the room");
+    applyJoined(joined);
+    hasJoinedRef.current = true;
+    setLobbyStatus(null);
+    setRebuildCount(count => count + 1);
+  }, [applyJoined]);
+
+  const handleLobbyDenied = useCallback(() => {
+    console.log("Not admitted to the room");
+    setLobbyStatus("denied");
+  }, []);
+
+  const handleLobbyJoinRequest = useCallback((request: LobbyRequest) => {
+    setLobbyRequests(prev => [...prev.filter(r => r.socketId !== request.socketId), request]);
+  }, []);
+
+  const handleLobbyLeft = useCallback(({ socketId }: { socketId: string }) => {
+    setLobbyRequests(prev => prev.filter(r => r.socketId !== socketId));
+  }, []);
+
+  const handlePeerJoined = useCallback((peer: PeerInfo) => {
+    setPeers(prev => [...prev.filter(p => p.socketId !== peer.socketId), peer]);
+  }, []);
+
+  const handlePeerLeft = useCallback(({ socketId }: { socketId: string }) => {
+    setPeers(prev => prev.filter(p => p.socketId !== socketId));
+  }, []);
+
+  const handlePeerRoleChanged = useCallback(({ socketId, role }: PeerRoleChanged) => {
+    if (socketId === peerId) {
+      setOwnRole(role);
+      return;
+    }
+    setPeers(prev => prev.map(p => p.socketId === socketId ? { ...p, role } : p));
+  }, [peerId]);
+
+  // A host stopped our video: the server already closed the producers, so
+  // only the mic and screen audio keep going
+  const handleModeration = useCallback((event: ModerationEvent) => {
+    setModerationNotice(describeModeration(event, peerId));
+    if (event.action !== "stopVideo" || event.peerId !== peerId) return;
+
+    const webcam = localProducers.find(p => p.kind === "video");
+    if (webcam) {
+      webcam.close();
+      setLocalProducers(prev => prev.filter(p => p !== webcam));
+      setIsCameraOff(true);
+    }
+    if (screenProducers.some(p => p.kind === "video")) {
+      screenProducers.filter(p => p.kind === "video").forEach(p => p.close());
+      closeScreenShare(screenProducers.filter(p => p.kind !== "video"), screenStream);
+    }
+  }, [peerId, localProducers, screenProducers, screenStream, closeScreenShare]);
+
+  // A host removed us and the server disconnected us. Nothing to resume.
+  const handleKicked = useCallback(() => {
+    console.log("Kicked from the room");
+    sessionIdRef.current = null;
+    setIsInitialized(false);
+    setInitializationError("A host removed you from this room");
+  }, []);
+
+  // A host deleted the room and the server sent us out. Nothing to resume.
+  const handleRoomClosed = useCallback(() => {
+    console.log("Room closed");
+    sessionIdRef.current = null;
+    setIsInitialized(false);
+    setInitializationError("This room was closed");
+  }, []);
+
+  const handleRoomMigrated = useCallback(() => {
+    console.log("Room migrated");
+    rebuildMedia(false);
+  }, [rebuildMedia]);
+
+  // Socket.IO reconnected us on a new socket. Take our session back, drop
+  // what the server closed while we were away and catch up on what started.
+  const handleReconnect = useCallback(async () => {
+    if (!socket) return;
+
+    // The lobby forgot us with the old socket, ask again
+    if (lobbyStatus === "waiting") {
+      setRebuildCount(count => count + 1);
+      return;
+    }
+    if (!sessionIdRef.current) return;
+
+    const result = await socket.emitWithAck("resumeSession", { sessionId: sessionIdRef.current });
+    if (!result.ok) {
+      console.warn("Could not resume session:", result.error.message);
+      rebuildMedia(true);
+      return;
+    }
+
+    // The room migrated while we were away
+    const { transports, recording, consumerIds } = result.data;
+    if ((producerTransport && !transports.includes("producer"))
+      || (consumerTransport && !transports.includes("consumer"))) {
+      rebuildMedia(false);
+      return;
+    }
+
+    console.log("Session resumed");
+    setRecording(recording);
+
+    const liveConsumerIds = new Set(consumerIds);
+    consumersRef.current.forEach((consumer, consumerId) => {
+      if (!liveConsumerIds.has(consumerId)) {
+        consumer.close();
+        consumersRef.current.delete(consumerId);
+        consumedProducersRef.current.delete(consumer.producerId);
+        preferredLayersRef.current.delete(consumerId);
+      }
+    });
+    setRemoteStreams(prev => removeRemoteTracks(prev, t => !liveConsumerIds.has(t.consumerId)));
+
+    const existingProducers = await socket.emitWithAck("getProducers");
+    if (!existingProducers.ok) {
+      console.error("Error getting producers:", existingProducers.error.message);
+    } else {
+      for (const info of existingProducers.data) {
+        await consumeStream(info);
+      }
+    }
+
+    // ICE may have failed while we could not ask for a restart
+    [producerTransport, consumerTransport].forEach(transport => {
+      if (transport && ["disconnected", "failed"].includes(transport.connectionState)) {
+        restartIce(transport);
+      }
+    });
+  }, [socket, lobbyStatus, producerTransport, consumerTransport, consumeStream, rebuildMedia, restartIce]);
+
   // Set up event listeners
   useEffect(() => {
     if (!socket) return;
 
     socket.on("newProducer", handleNewProducer);
     socket.on("producerClosed", handleProducerClosed);
+    socket.on("producerPaused", handleProducerPaused);
+    socket.on("producerResumed", handleProducerResumed);
+    socket.on("consumerScore", handleConsumerScore);
+    socket.on("consumerLayersChanged", handleConsumerLayersChanged);
+    socket.on("producerScore", handleProducerScore);
+    socket.on("activeSpeaker", handleActiveSpeaker);
+    socket.on("audioLevels", handleAudioLevels);
+    socket.on("recordingStarted", handleRecordingStarted);
+    socket.on("recordingStopped", handleRecordingStopped);
+    socket.on("egressStarted", handleEgressStarted);
+    socket.on("egressStopped", handleEgressStopped);
+    socket.on("chatMessage", handleChatMessage);
+    socket.on("chatHistory", handleChatHistory);
+    socket.on("roomMigrated", handleRoomMigrated);
+    socket.on("roomUpdated", setRoom);
+    socket.on("roomClosed", handleRoomClosed);
+    socket.on("lobbyAdmitted", handleLobbyAdmitted);
+    socket.on("lobbyDenied", handleLobbyDenied);
+    socket.on("lobbyJoinRequest", handleLobbyJoinRequest);
+    socket.on("lobbyLeft", handleLobbyLeft);
+    socket.on("peerJoined", handlePeerJoined);
+    socket.on("peerLeft", handlePeerLeft);
+    socket.on("peerRoleChanged", handlePeerRoleChanged);
+    socket.on("moderation", handleModeration);
+    socket.on("kicked", handleKicked);
+    socket.on("connect", handleReconnect);
 
     return () => {
       socket.off("newProducer", handleNewProducer);
       socket.off("producerClosed", handleProducerClosed);
+      socket.off("producerPaused", handleProducerPaused);
+      socket.off("producerResumed", handleProducerResumed);
+      socket.off("consumerScore", handleConsumerScore);
+      socket.off("consumerLayersChanged", handleConsumerLayersChanged);
+      socket.off("producerScore", handleProducerScore);
+      socket.off("activeSpeaker", handleActiveSpeaker);
+      socket.off("audioLevels", handleAudioLevels);
+      socket.off("recordingStarted", handleRecordingStarted);
+      socket.off("recordingStopped", handleRecordingStopped);
+      socket.off("egressStarted", handleEgressStarted);
+      socket.off("egressStopped", handleEgressStopped);
+      socket.off("chatMessage", handleChatMessage);
+      socket.off("chatHistory", handleChatHistory);
+      socket.off("roomMigrated", handleRoomMigrated);
+      socket.off("roomUpdated", setRoom);
+      socket.off("roomClosed", handleRoomClosed);
+      socket.off("lobbyAdmitted", handleLobbyAdmitted);
+      socket.off("lobbyDenied", handleLobbyDenied);
+      socket.off("lobbyJoinRequest", handleLobbyJoinRequest);
+      socket.off("lobbyLeft", handleLobbyLeft);
+      socket.off("peerJoined", handlePeerJoined);
+      socket.off("peerLeft", handlePeerLeft);
+      socket.off("peerRoleChanged", handlePeerRoleChanged);
+      socket.off("moderation", handleModeration);
+      socket.off("kicked", handleKicked);
+      socket.off("connect", handleReconnect);
     };
-  }, [socket, handleNewProducer, handleProducerClosed]);
+  }, [
+    socket,
+    handleNewProducer,
+    handleProducerClosed,
+    handleProducerPaused,
+    handleProducerResumed,
+    handleConsumerScore,
+    handleConsumerLayersChanged,
+    handleProducerScore,
+    handleActiveSpeaker,
+    handleAudioLevels,
+    handleRecordingStarted,
+    handleRecordingStopped,
+    handleEgressStarted,
+    handleEgressStopped,
+    handleChatMessage,
+    handleChatHistory,
+    handleRoomMigrated,
+    handleRoomClosed,
+    handleLobbyAdmitted,
+    handleLobbyDenied,
+    handleLobbyJoinRequest,
+    handleLobbyLeft,
+    handlePeerJoined,
+    handlePeerLeft,
+    handlePeerRoleChanged,
+    handleModeration,
+    handleKicked,
+    handleReconnect
+  ]);
+
+  // Close transports when they are replaced or on unmount
+  useEffect(() => () => producerTransport?.close(), [producerTransport]);
+  useEffect(() => () => consumerTransport?.close(), [consumerTransport]);
+
+  // Stop the local and screen streams when they are replaced or on unmount
+  useEffect(() => () => localStream?.getTracks().forEach(track => track.stop()), [localStream]);
+  useEffect(() => () => screenStream?.getTracks().forEach(track => track.stop()), [screenStream]);
 
   // Cleanup on unmount
   useEffect(() => {
+    const consumers = consumersRef.current;
     return () => {
       // Clean up all consumers
-      consumersRef.current.forEach(consumer => consumer.close());
-      consumersRef.current.clear();
-      
-      // Stop local stream
-      if (localStream) {
-        localStream.getTracks().forEach(track => track.stop());
-      }
-      
-      // Close transports
-      if (producerTransport) {
-        producerTransport.close();
-      }
-      if (consumerTransport) {
-        consumerTransport.close();
+      consumers.forEach(consumer => consumer.close());
+      consumers.clear();
+    };
+  }, []);
+
+  // Someone we could not receive anything from still gets a tile, to show why
+  const displayedStreams = useMemo(() => {
+    const streams = [...remoteStreams];
+    Object.values(failedProducers).forEach(({ info }) => {
+      const isScreen = info.appData.source === "screen";
+      const id = getStreamId(info.socketId, isScreen);
+      if (!streams.some(s => s.id === id)) {
+        streams.push({ id, socketId: info.socketId, displayName: info.displayName, isScreen, tracks: [], stream: new MediaStream() });
       }
+    });
+    return streams;
+  }, [remoteStreams, failedProducers]);
+
+  // What went wrong with a participant's media, and a retry for what we could not receive
+  const getTileErrorProps = (remoteStream: RemoteStream) => {
+    const failed = Object.values(failedProducers)
+      .filter(({ info }) => getStreamId(info.socketId, info.appData.source === "screen") === remoteStream.id);
+    const messages = [
+      ...failed.map(f => f.message),
+      ...remoteStream.tracks.flatMap(t => producerErrors[t.producerId] ?? [])
+    ];
+    return {
+      error: messages.length > 0 ? messages.join(". ") : undefined,
+      onRetry: failed.length > 0 ? () => failed.forEach(({ info }) => consumeStream(info)) : undefined
     };
-  }, [localStream, producerTransport, consumerTransport]);
+  };
+
+  // A pinned participant, else the dominant speaker, goes first and large
+  const spotlightId = displayedStreams.some(s => s.id === pinnedId) ? pinnedId : activeSpeakerId;
+  const participants = displayedStreams
+    .filter(s => !s.isScreen)
+    .sort((a, b) => Number(b.id === spotlightId) - Number(a.id === spotlightId));
+
+  if (lobbyStatus) {
+    return (
+      <LobbyScreen
+        roomName={room?.name ?? roomId ?? ""}
+        denied={lobbyStatus === "denied"}
+        getPermissions={getPermissions}
+        videoRef={localVideoRef}
+      />
+    );
+  }
 
   return (
     <div style={{ padding: "20px" }}>
-      <h1>Live Stream</h1>
+      <h1>
+        Live Stream
+        {recording && (
+          <span
+            title={`Recording since ${new Date(recording.startedAt).toLocaleTimeString()}`}
+            style={{ marginLeft: "10px", fontSize: "16px", color: "white", backgroundColor: "#dc3545", padding: "2px 8px", borderRadius: "4px" }}
+          >
+            ● REC
+          </span>
+        )}
+        {room?.locked && (
+          <span
+            title="Only hosts can join"
+            style={{ marginLeft: "10px", fontSize: "16px", color: "white", backgroundColor: "#6c757d", padding: "2px 8px", borderRadius: "4px" }}
+          >
+            Locked
+          </span>
+        )}
+      </h1>
+      <p>Room: {room && room.name !== roomId ? `${room.name} (${roomId})` : roomId}</p>
       
-      {/* Error Display */}
+      {/* Setting up failed, other errors show next to what failed */}
       {initializationError && (
         <div style={{
           backgroundColor: "#f8d7da",
@@ -571,6 +1690,21 @@ function Stream() {
           <strong>Error:</strong> {initializationError}
         </div>
       )}
+
+      {needsPassword && (
+        <form onSubmit={submitPassword} style={{ marginBottom: "20px" }}>
+          <input
+            type="password"
+            placeholder="Room password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            style={{ padding: "5px", width: "200px" }}
+          />
+          <button type="submit" disabled={!passwordInput} style={{ marginLeft: "10px" }}>
+            Join
+          </button>
+        </form>
+      )}
       
       {/* Controls */}
       <div style={{ marginBottom: "20px" }}>
@@ -590,13 +1724,172 @@ function Stream() {
           {isStreaming ? "Stop Streaming" : "Start Streaming"}
         </button>
         
+        <button
+          onClick={() => toggleLocalProducer('webcam')}
+          disabled={!isStreaming || !localProducers.some(p => p.appData.source === 'webcam')}
+          style={{ padding: "10px 20px" }}
+        >
+          {isCameraOff ? "Turn Camera On" : "Turn Camera Off"}
+        </button>
+        
+        <button
+          onClick={() => toggleLocalProducer('mic')}
+          disabled={!isStreaming || !localProducers.some(p => p.appData.source === 'mic')}
+          style={{ padding: "10px 20px" }}
+        >
+          {isMicMuted ? "Unmute" : "Mute"}
+        </button>
+        
+        <button
+          onClick={screenStream ? () => closeScreenShare(screenProducers, screenStream) : startScreenShare}
+          disabled={!isInitialized || !producerTransport}
+          style={{ padding: "10px 20px" }}
+        >
+          {screenStream ? "Stop Presenting" : "Share Screen"}
+        </button>
+        
+        {isHost && (
+          <button
+            onClick={toggleRecording}
+            disabled={!isInitialized}
+            style={{ padding: "10px 20px" }}
+          >
+            {recording ? "Stop Recording" : "Start Recording"}
+          </button>
+        )}
+        
+        {isHost && (
+          <button
+            onClick={toggleRoomLock}
+            disabled={!isInitialized || !room}
+            style={{ padding: "10px 20px" }}
+          >
+            {room?.locked ? "Unlock Room" : "Lock Room"}
+          </button>
+        )}
+        
+        <label style={{ marginLeft: "10px" }}>
+          <input
+            type="checkbox"
+            checked={dataSaver}
+            onChange={toggleDataSaver}
+            disabled={!isInitialized}
+          />
+          Data saver
+        </label>
+        
         <span style={{ marginLeft: "10px" }}>
           Status: {!isInitialized ? "Initializing..." : "Ready"}
           {isStreaming && " | Streaming"}
+          {isStreaming && isCameraOff && " | Camera off"}
+          {isStreaming && isMicMuted && " | Muted"}
+          {isStreaming && Object.keys(uploadScores).length > 0 &&
+            ` | Upload quality: ${Math.min(...Object.values(uploadScores))}/10`}
+          {screenStream && " | Presenting"}
           {pendingProducers.length > 0 && ` | Pending: ${pendingProducers.length}`}
         </span>
+        <ActionError message={actionErrors.stream} />
+        <ActionError message={actionErrors.webcam} />
+        <ActionError message={actionErrors.mic} />
+        <ActionError message={actionErrors.screen} />
+        <ActionError message={actionErrors.recording} />
+        <ActionError message={actionErrors.lock} />
+        <ActionError message={actionErrors.dataSaver} />
       </div>
 
+      {moderationNotice && (
+        <div style={{ backgroundColor: "#fff3cd", padding: "10px", borderRadius: "5px", marginBottom: "20px" }}>
+          {moderationNotice}
+          <button onClick={() => setModerationNotice(null)} style={{ marginLeft: "10px" }}>
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <ParticipantList
+        peers={peers}
+        selfRole={role}
+        canModerate={isHost && isInitialized}
+        onKick={(targetId) => moderatePeer("kickPeer", targetId)}
+        onStopVideo={(targetId) => moderatePeer("stopVideo", targetId)}
+        onTransferHost={(targetId) => moderatePeer("transferHost", targetId)}
+        onMuteAll={muteEveryone}
+        error={actionErrors.moderation}
+      />
+
+      {/* Lobby */}
+      {isHost && room?.lobby && (
+        <LobbyPanel
+          requests={lobbyRequests}
+          onAdmit={(socketId) => decideLobbyRequest(socketId, true)}
+          onDeny={(socketId) => decideLobbyRequest(socketId, false)}
+          error={actionErrors.lobby}
+        />
+      )}
+
+      {/* Egress */}
+      {isHost && (
+        <div style={{ marginBottom: "20px" }}>
+          <h3>Broadcast outputs</h3>
+          <button onClick={() => startEgress("hls")} disabled={!isInitialized}>
+            Start HLS
+          </button>
+          <input
+            type="text"
+            placeholder="rtmp://server/app/stream-key"
+            value={rtmpUrl}
+            onChange={(e) => setRtmpUrl(e.target.value)}
+            style={{ marginLeft: "10px", padding: "5px", width: "300px" }}
+          />
+          <button onClick={() => startEgress("rtmp")} disabled={!isInitialized || !rtmpUrl}>
+            Push to RTMP
+          </button>
+          <ActionError message={actionErrors.egress} />
+          <ul>
+            {egressOutputs.map(egress => (
+              <li key={egress.egressId}>
+                {egress.type.toUpperCase()} of {egress.displayName}
+                {egress.playlistUrl && (
+                  <> — <a href={new URL(egress.playlistUrl, SERVER_URL).href} target="_blank" rel="noreferrer">playlist</a></>
+                )}
+                <button onClick={() => stopEgress(egress.egressId)} style={{ marginLeft: "10px" }}>
+                  Stop
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Ingest */}
+      {isHost && (
+        <div style={{ marginBottom: "20px" }}>
+          <h3>External feeds</h3>
+          <input
+            type="text"
+            placeholder="Feed name"
+            value={ingestName}
+            onChange={(e) => setIngestName(e.target.value)}
+            style={{ padding: "5px", width: "200px" }}
+          />
+          <button onClick={createIngest} disabled={!isInitialized} style={{ marginLeft: "10px" }}>
+            Add RTP ingest
+          </button>
+          <ActionError message={actionErrors.ingest} />
+          {ingests.map(ingest => (
+            <div key={ingest.ingestId} style={{ marginTop: "10px" }}>
+              <strong>{ingest.displayName}</strong>
+              <button onClick={() => closeIngest(ingest.ingestId)} style={{ marginLeft: "10px" }}>
+                Remove
+              </button>
+              <pre style={{ backgroundColor: "#f5f5f5", padding: "10px", overflowX: "auto" }}>
+                {ingest.ffmpegCommand}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Local Video */}
       <div style={{ marginBottom: "20px" }}>
         <h3>Your Stream</h3>
@@ -609,27 +1902,65 @@ function Stream() {
             width: "300px",
             height: "200px",
             backgroundColor: "#000", 
-            border: "2px solid #ccc"
+            border: `2px solid ${speakingIds.has(peerId ?? "") ? "#ffc107" : "#ccc"}`
           }}
         />
       </div>
 
+      {/* Presentations */}
+      {displayedStreams.some(s => s.isScreen) && (
+        <div style={{ marginBottom: "20px" }}>
+          <h3>Presentation</h3>
+          {displayedStreams.filter(s => s.isScreen).map((remoteStream) => (
+            <RemoteVideo
+              key={remoteStream.id}
+              remoteStream={remoteStream}
+              isLarge
+              onPreferredLayer={setPreferredLayer}
+              onPauseProducer={isHost ? pauseRemoteProducer : undefined}
+              {...getTileErrorProps(remoteStream)}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Remote Videos */}
       <div>
-        <h3>Other Streams ({remoteStreams.length})</h3>
+        <h3>Participants ({participants.length})</h3>
+        <p style={{ fontSize: "12px", color: "#666" }}>
+          Whoever is talking is shown large. Click a participant to pin them instead.
+        </p>
         <div style={{ 
           display: "grid", 
           gridTemplateColumns: "repeat(auto-fill, minmax(300px, 1fr))", 
           gap: "10px" 
         }}>
-          {remoteStreams.map((remoteStream) => (
+          {participants.map((remoteStream) => (
             <RemoteVideo 
               key={remoteStream.id} 
               remoteStream={remoteStream} 
+              isLarge={remoteStream.id === spotlightId}
+              isSpeaking={speakingIds.has(remoteStream.socketId)}
+              onClick={() => setPinnedId(id => id === remoteStream.id ? null : remoteStream.id)}
+              onPreferredLayer={setPreferredLayer}
+              onPauseProducer={isHost ? pauseRemoteProducer : undefined}
+              {...getTileErrorProps(remoteStream)}
             />
           ))}
         </div>
       </div>
+
+      {/* Chat */}
+      <div style={{ marginTop: "20px" }}>
+        <ChatPanel
+          messages={chatMessages}
+          selfId={peerId}
+          overDataChannel={chatOverDataChannel}
+          onSend={sendChatMessage}
+          disabled={!isInitialized}
+          error={actionErrors.chat}
+        />
+      </div>
     </div>
   );
 }
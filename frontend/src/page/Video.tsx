@@ -0,0 +1,11 @@
+import { useParams, useSearchParams } from "react-router-dom";
+import VideoCall from "../components/VideoCall";
+
+function Video() {
+  const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+
+  return <VideoCall initialRoomId={roomId} initialName={searchParams.get("name") ?? ""} />;
+}
+
+export default Video;
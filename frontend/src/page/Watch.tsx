@@ -1,8 +1,432 @@
+import { useContext, useEffect, useMemo, useRef, useState, useCallback } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import { SocketContext, SERVER_URL } from "../context/socket";
+import { Device } from 'mediasoup-client';
+import type { Transport, Consumer } from 'mediasoup-client/types';
+import type { EgressInfo, ProducerInfo } from "shared";
+import Hls from "hls.js";
+import { withRetry } from "../utils/retry";
 
+interface Broadcaster {
+  socketId: string;
+  displayName: string;
+  producerIds: string[];
+}
+
+// Group the room's producers by the socket sending them
+function groupBroadcasters(producers: ProducerInfo[]): Broadcaster[] {
+  const bySocket = new Map<string, Broadcaster>();
+  for (const { producerId, socketId, displayName } of producers) {
+    const broadcaster = bySocket.get(socketId) ?? { socketId, displayName, producerIds: [] };
+    broadcaster.producerIds.push(producerId);
+    bySocket.set(socketId, broadcaster);
+  }
+  return Array.from(bySocket.values());
+}
+
+// Viewer-only page: one consumer transport, no camera or microphone
 function Watch() {
+  const { socket, token } = useContext(SocketContext);
+  const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams] = useSearchParams();
+  const displayName = searchParams.get("name");
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsVideoRef = useRef<HTMLVideoElement>(null);
+  const [device, setDevice] = useState<Device | null>(null);
+  const [consumerTransport, setConsumerTransport] = useState<Transport | null>(null);
+  const [producers, setProducers] = useState<ProducerInfo[]>([]);
+  const [selectedSocketId, setSelectedSocketId] = useState<string | null>(null);
+  const [streamEnded, setStreamEnded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hlsStream, setHlsStream] = useState<{ url: string; displayName: string } | null>(null);
+  // Waiting in the room's lobby for a host, or turned away
+  const [lobbyStatus, setLobbyStatus] = useState<"waiting" | "denied" | null>(null);
+
+  const consumersRef = useRef<Map<string, Consumer>>(new Map()); // producerId -> consumer
+  const requestedProducersRef = useRef<Set<string>>(new Set());
+  const streamRef = useRef<MediaStream>(new MediaStream());
+  const isInitializingRef = useRef(false);
+
+  const broadcasters = useMemo(() => groupBroadcasters(producers), [producers]);
+  const selected = useMemo(
+    () => broadcasters.find(b => b.socketId === selectedSocketId),
+    [broadcasters, selectedSocketId]
+  );
+
+  // WebRTC did not work out: play the room's HLS output instead, if it has one.
+  // This goes over HTTP, so it works even when joining the room did not.
+  const fallBackToHls = useCallback(async (reason: string) => {
+    if (!roomId) return;
+
+    try {
+      const response = await fetch(`${SERVER_URL}/egress?roomId=${encodeURIComponent(roomId)}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const outputs: EgressInfo[] = await response.json();
+      if (!response.ok) {
+        throw new Error((outputs as unknown as { error: string }).error);
+      }
+
+      const hlsOutputs = outputs.filter(output => output.type === "hls" && output.playlistUrl);
+      const output = hlsOutputs.find(o => o.socketId === selectedSocketId) ?? hlsOutputs[0];
+      if (!output?.playlistUrl) {
+        throw new Error("this room has no HLS stream");
+      }
+
+      console.log(`${reason}, falling back to HLS:`, output.playlistUrl);
+      setHlsStream({ url: new URL(output.playlistUrl, SERVER_URL).href, displayName: output.displayName });
+      setError(null);
+    } catch (error) {
+      console.error("HLS fallback failed:", error);
+      setError(`${reason}, and HLS is not available: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [roomId, token, selectedSocketId]);
+
+  // The transport outlives fallBackToHls' dependencies, so it calls the latest one through a ref
+  const fallBackToHlsRef = useRef(fallBackToHls);
+  useEffect(() => {
+    fallBackToHlsRef.current = fallBackToHls;
+  }, [fallBackToHls]);
+
+  // Set up the receive side only, once we are in the room
+  const startReceiving = useCallback(async () => {
+    if (!socket) return;
+
+    const routerRtpCapabilities = await socket.emitWithAck("getRouterRtpCapabilities");
+    if (!routerRtpCapabilities.ok) {
+      throw new Error(`Server error: ${routerRtpCapabilities.error.message}`);
+    }
+
+    const device = new Device();
+    await device.load({ routerRtpCapabilities: routerRtpCapabilities.data });
+    const capabilitiesResult = await withRetry(() => socket.emitWithAck("setRtpCapabilities", device.rtpCapabilities));
+    if (!capabilitiesResult.ok) {
+      throw new Error(`Server error: ${capabilitiesResult.error.message}`);
+    }
+
+    const transportOptions = await withRetry(() => socket.emitWithAck("createConsumerTransport"));
+    if (!transportOptions.ok) {
+      throw new Error(`Server error: ${transportOptions.error.message}`);
+    }
+
+    const transport = device.createRecvTransport(transportOptions.data);
+    transport.on("connect", async ({ dtlsParameters }, callback, errback) => {
+      try {
+        const result = await socket.emitWithAck("connectConsumerTransport", { dtlsParameters });
+        if (!result.ok) {
+          throw new Error(result.error.message);
+        }
+        callback();
+      } catch (error) {
+        console.error("Error connecting consumer transport:", error);
+        errback(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    transport.on("connectionstatechange", (state) => {
+      if (state === "failed") {
+        fallBackToHlsRef.current("WebRTC connection failed");
+      }
+    });
+
+    setDevice(device);
+    setConsumerTransport(transport);
+
+    const existingProducers = await socket.emitWithAck("getProducers");
+    if (!existingProducers.ok) {
+      throw new Error(`Server error: ${existingProducers.error.message}`);
+    }
+    console.log("Live producers:", existingProducers.data);
+    setProducers(existingProducers.data);
+  }, [socket]);
+
+  // WebRTC could not be set up, the room may still have an HLS stream
+  const handleSetupError = useCallback((error: unknown) => {
+    console.error("Error initializing viewer:", error);
+    setError(error instanceof Error ? error.message : String(error));
+    fallBackToHlsRef.current(`WebRTC setup failed (${error instanceof Error ? error.message : error})`);
+  }, []);
+
+  // Join as a viewer. In a room with a lobby we wait there until a host
+  // lets us in, lobbyAdmitted picks up from there.
+  useEffect(() => {
+    if (!socket || !roomId || isInitializingRef.current) return;
+
+    const initialize = async () => {
+      isInitializingRef.current = true;
+      setError(null);
+
+      try {
+        const joinResult = await withRetry(() => socket.emitWithAck("joinRoom", { roomId, displayName, role: "viewer" }));
+        if (!joinResult.ok) {
+          throw new Error(`Failed to join room: ${joinResult.error.message}`);
+        }
+        if (!joinResult.data.admitted) {
+          console.log(`Waiting in the lobby of room ${roomId}`);
+          setLobbyStatus("waiting");
+          return;
+        }
+
+        await startReceiving();
+      } catch (error) {
+        handleSetupError(error);
+      } finally {
+        isInitializingRef.current = false;
+      }
+    };
+
+    initialize();
+  }, [socket, roomId, displayName, startReceiving, handleSetupError]);
+
+  // Play the HLS stream natively where the browser can (Safari), else with hls.js
+  useEffect(() => {
+    const video = hlsVideoRef.current;
+    if (!video || !hlsStream) return;
+
+    if (video.canPlayType("application/vnd.apple.mpegurl")) {
+      video.src = hlsStream.url;
+      return () => {
+        video.removeAttribute("src");
+        video.load();
+      };
+    }
+
+    if (!Hls.isSupported()) {
+      setError("This browser cannot play HLS");
+      return;
+    }
+
+    const hls = new Hls();
+    hls.loadSource(hlsStream.url);
+    hls.attachMedia(video);
+    hls.on(Hls.Events.ERROR, (_event, data) => {
+      if (data.fatal) {
+        console.error("HLS playback error:", data);
+        setError(`HLS playback failed: ${data.details}`);
+      }
+    });
+    return () => hls.destroy();
+  }, [hlsStream]);
+
+  // Default to the first broadcaster that goes live
+  useEffect(() => {
+    if (!selectedSocketId && !streamEnded && broadcasters.length > 0) {
+      setSelectedSocketId(broadcasters[0].socketId);
+    }
+  }, [selectedSocketId, streamEnded, broadcasters]);
+
+  // The broadcaster we were watching has nothing left on air
+  useEffect(() => {
+    if (selectedSocketId && !selected) {
+      setSelectedSocketId(null);
+      setStreamEnded(true);
+    }
+  }, [selectedSocketId, selected]);
+
+  const consumeProducer = useCallback(async (producerId: string) => {
+    if (!socket || !consumerTransport || requestedProducersRef.current.has(producerId)) return;
+
+    requestedProducersRef.current.add(producerId);
+    try {
+      const consumerOptions = await withRetry(() => socket.emitWithAck("consume", { producerId }));
+      if (!consumerOptions.ok) {
+        throw new Error(`Server error: ${consumerOptions.error.message}`);
+      }
+
+      const consumer = await consumerTransport.consume(consumerOptions.data);
+
+      // The selection changed while we were waiting
+      if (!requestedProducersRef.current.has(producerId)) {
+        consumer.close();
+        return;
+      }
+      consumersRef.current.set(producerId, consumer);
+
+      const resumeResult = await socket.emitWithAck("resumeConsumer", { consumerId: consumer.id });
+      if (!resumeResult.ok) {
+        throw new Error(`Error resuming consumer: ${resumeResult.error.message}`);
+      }
+
+      streamRef.current.addTrack(consumer.track);
+      if (videoRef.current && videoRef.current.srcObject !== streamRef.current) {
+        videoRef.current.srcObject = streamRef.current;
+      }
+      videoRef.current?.play().catch((error) => console.error("Failed to play stream:", error));
+    } catch (error) {
+      console.error(`Error consuming producer ${producerId}:`, error);
+      requestedProducersRef.current.delete(producerId);
+    }
+  }, [socket, consumerTransport]);
+
+  const closeConsumer = useCallback((producerId: string) => {
+    requestedProducersRef.current.delete(producerId);
+    const consumer = consumersRef.current.get(producerId);
+    if (!consumer) return;
+
+    streamRef.current.removeTrack(consumer.track);
+    consumer.close();
+    consumersRef.current.delete(producerId);
+  }, []);
+
+  // Auto-consume the selected broadcaster's audio and video, drop everyone else's.
+  // Nothing is needed over WebRTC once we play HLS.
+  useEffect(() => {
+    if (!device || !consumerTransport) return;
+
+    const wanted = new Set(hlsStream ? [] : selected?.producerIds ?? []);
+    Array.from(requestedProducersRef.current)
+      .filter(producerId => !wanted.has(producerId))
+      .forEach(closeConsumer);
+    wanted.forEach(producerId => consumeProducer(producerId));
+  }, [device, consumerTransport, selected, hlsStream, consumeProducer, closeConsumer]);
+
+  const handleNewProducer = useCallback((producer: ProducerInfo) => {
+    console.log("New producer event:", producer);
+    setProducers(prev => prev.some(p => p.producerId === producer.producerId) ? prev : [...prev, producer]);
+  }, []);
+
+  const handleProducerClosed = useCallback(({ producerId }: { producerId: string }) => {
+    console.log("Producer closed:", producerId);
+    closeConsumer(producerId);
+    setProducers(prev => prev.filter(p => p.producerId !== producerId));
+  }, [closeConsumer]);
+
+  // A host deleted the room, there is nothing left to watch
+  const handleRoomClosed = useCallback(() => {
+    console.log("Room closed");
+    setProducers([]);
+    setError("This room was closed");
+  }, []);
+
+  const handleLobbyAdmitted = useCallback(() => {
+    console.log("Admitted to the room");
+    setLobbyStatus(null);
+    startReceiving().catch(handleSetupError);
+  }, [startReceiving, handleSetupError]);
+
+  const handleLobbyDenied = useCallback(() => {
+    console.log("Not admitted to the room");
+    setLobbyStatus("denied");
+  }, []);
+
+  const handleKicked = useCallback(() => {
+    console.log("Kicked from the room");
+    setProducers([]);
+    setError("A host removed you from this room");
+  }, []);
+
+  // Set up event listeners
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on("newProducer", handleNewProducer);
+    socket.on("producerClosed", handleProducerClosed);
+    socket.on("roomClosed", handleRoomClosed);
+    socket.on("kicked", handleKicked);
+    socket.on("lobbyAdmitted", handleLobbyAdmitted);
+    socket.on("lobbyDenied", handleLobbyDenied);
+
+    return () => {
+      socket.off("newProducer", handleNewProducer);
+      socket.off("producerClosed", handleProducerClosed);
+      socket.off("roomClosed", handleRoomClosed);
+      socket.off("kicked", handleKicked);
+      socket.off("lobbyAdmitted", handleLobbyAdmitted);
+      socket.off("lobbyDenied", handleLobbyDenied);
+    };
+  }, [socket, handleNewProducer, handleProducerClosed, handleRoomClosed, handleKicked, handleLobbyAdmitted, handleLobbyDenied]);
+
+  // Close the transport when it is replaced or on unmount
+  useEffect(() => () => consumerTransport?.close(), [consumerTransport]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    const consumers = consumersRef.current;
+    return () => {
+      consumers.forEach(consumer => consumer.close());
+      consumers.clear();
+    };
+  }, []);
+
   return (
-    <div>Watch</div>
-  )
+    <div style={{ padding: "20px" }}>
+      <h1>Watch</h1>
+      <p>Room: {roomId}</p>
+
+      {error && (
+        <div style={{
+          backgroundColor: "#f8d7da",
+          color: "#721c24",
+          padding: "10px",
+          borderRadius: "5px",
+          marginBottom: "20px",
+          border: "1px solid #f5c6cb"
+        }}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      {lobbyStatus === "waiting" && <p>Waiting for a host to let you in...</p>}
+      {lobbyStatus === "denied" && <p>A host did not let you into this room.</p>}
+
+      {/* Live broadcasters */}
+      <div style={{ marginBottom: "20px" }}>
+        <h3>Live now ({broadcasters.length})</h3>
+        {broadcasters.length === 0 && <p>Nobody is broadcasting in this room yet.</p>}
+        {broadcasters.map(broadcaster => (
+          <button
+            key={broadcaster.socketId}
+            onClick={() => {
+              setSelectedSocketId(broadcaster.socketId);
+              setStreamEnded(false);
+            }}
+            style={{ fontWeight: broadcaster.socketId === selectedSocketId ? "bold" : "normal" }}
+          >
+            {broadcaster.displayName}
+          </button>
+        ))}
+      </div>
+
+      {/* Player */}
+      <div>
+        {!hlsStream && streamEnded && !selected && <p>The stream has ended.</p>}
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          controls
+          style={{
+            width: "640px",
+            maxWidth: "100%",
+            backgroundColor: "#000",
+            display: selected && !hlsStream ? "block" : "none"
+          }}
+        />
+        <video
+          ref={hlsVideoRef}
+          autoPlay
+          playsInline
+          controls
+          style={{
+            width: "640px",
+            maxWidth: "100%",
+            backgroundColor: "#000",
+            display: hlsStream ? "block" : "none"
+          }}
+        />
+        {hlsStream
+          ? <p>Watching: {hlsStream.displayName} (HLS, a few seconds behind)</p>
+          : selected && (
+            <p>
+              Watching: {selected.displayName}
+              <button onClick={() => fallBackToHls("Switched by hand")} style={{ marginLeft: "10px" }}>
+                Trouble playing? Switch to HLS
+              </button>
+            </p>
+          )}
+      </div>
+    </div>
+  );
 }
 
-export default Watch
\ No newline at end of file
+export default Watch;
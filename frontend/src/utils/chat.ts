@@ -0,0 +1,20 @@
+import type { ChatMessage } from 'shared';
+
+// Messages kept on screen. The server only hands out its last 100 by
+// default (CHAT_HISTORY_LIMIT), anything older here arrived live.
+const MAX_MESSAGES = 200;
+
+// Merge messages into the list, once each and in the order they were sent.
+// The same message can come from the history and as it is sent.
+export function addChatMessages(messages: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const known = new Set(messages.map(m => m.messageId));
+  const added = incoming.filter(m => !known.has(m.messageId));
+  if (added.length === 0) return messages;
+
+  return [...messages, ...added]
+    .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+    .slice(-MAX_MESSAGES);
+}
+
+// The chat DataChannel carries each message as JSON text
+export const parseChatMessage = (data: unknown): ChatMessage => JSON.parse(String(data));
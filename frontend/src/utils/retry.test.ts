@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AckResult } from 'shared';
+import { withRetry } from './retry';
+
+const ok: AckResult<string> = { ok: true, data: 'done' };
+const unavailable: AckResult<string> = {
+  ok: false,
+  error: { code: 'UNAVAILABLE', message: 'No workers', retryable: true }
+};
+const forbidden: AckResult<string> = {
+  ok: false,
+  error: { code: 'FORBIDDEN', message: 'Forbidden', retryable: false }
+};
+
+// Answers with each result in turn, then keeps repeating the last one
+const respondWith = (...results: AckResult<string>[]) => {
+  let calls = 0;
+  return vi.fn(async () => results[Math.min(calls++, results.length - 1)]);
+};
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('sends once when the request succeeds', async () => {
+    const request = respondWith(ok);
+    await expect(withRetry(request)).resolves.toEqual(ok);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry an error that will not go away', async () => {
+    const request = respondWith(forbidden);
+    await expect(withRetry(request)).resolves.toEqual(forbidden);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a retryable error until the request succeeds', async () => {
+    const request = respondWith(unavailable, unavailable, ok);
+    const beforeRetry = vi.fn();
+
+    const result = withRetry(request, beforeRetry);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual(ok);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(beforeRetry).toHaveBeenCalledTimes(2);
+    expect(beforeRetry).toHaveBeenCalledWith({ code: 'UNAVAILABLE', message: 'No workers', retryable: true });
+  });
+
+  it('gives up with the last error after three retries', async () => {
+    const request = respondWith(unavailable);
+
+    const result = withRetry(request);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toEqual(unavailable);
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('waits longer before each retry', async () => {
+    const request = respondWith(unavailable);
+
+    const result = withRetry(request);
+    await vi.advanceTimersByTimeAsync(250);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(3);
+
+    await vi.runAllTimersAsync();
+    await result;
+  });
+});
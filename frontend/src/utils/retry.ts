@@ -0,0 +1,24 @@
+import type { AckError, AckResult } from 'shared';
+
+// How long to wait before each retry, after which the failure stands
+const RETRY_DELAYS = [250, 1000, 3000];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Send an acknowledged request, and again while it fails with a retryable
+// error. beforeRetry gets the error first, e.g. to send what was missing.
+export async function withRetry<T>(
+  request: () => Promise<AckResult<T>>,
+  beforeRetry?: (error: AckError) => unknown
+): Promise<AckResult<T>> {
+  let result = await request();
+  for (const delay of RETRY_DELAYS) {
+    if (result.ok || !result.error.retryable) break;
+
+    console.warn(`Retrying in ${delay}ms after ${result.error.code}: ${result.error.message}`);
+    await wait(delay);
+    await beforeRetry?.(result.error);
+    result = await request();
+  }
+  return result;
+}
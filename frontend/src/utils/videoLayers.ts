@@ -0,0 +1,40 @@
+import type { Device } from 'mediasoup-client';
+import type { ProducerOptions } from 'mediasoup-client/types';
+
+export type VideoScalability = 'simulcast' | 'svc';
+
+// Three VP8 simulcast streams, a quarter, half and full resolution
+const SIMULCAST_ENCODINGS = [
+  { rid: 'r0', scaleResolutionDownBy: 4, maxBitrate: 150000, scalabilityMode: 'L1T3' },
+  { rid: 'r1', scaleResolutionDownBy: 2, maxBitrate: 500000, scalabilityMode: 'L1T3' },
+  { rid: 'r2', scaleResolutionDownBy: 1, maxBitrate: 1200000, scalabilityMode: 'L1T3' }
+];
+
+// One VP9 stream carrying three spatial and three temporal layers
+const SVC_ENCODINGS = [{ scalabilityMode: 'L3T3_KEY', maxBitrate: 1200000 }];
+
+// Produce options for a webcam track, so the server can forward each
+// receiver only the layer it needs. Falls back to a single encoding when
+// the router and browser have no codec in common for it.
+export function getWebcamProduceOptions(device: Device, scalability: VideoScalability = 'simulcast'): Partial<ProducerOptions> {
+  const mimeType = scalability === 'svc' ? 'video/vp9' : 'video/vp8';
+  const codec = device.rtpCapabilities.codecs?.find(c => c.mimeType.toLowerCase() === mimeType);
+  if (!codec) {
+    console.warn(`${mimeType} is not available, sending a single encoding`);
+    return {};
+  }
+
+  return {
+    codec,
+    encodings: scalability === 'svc' ? SVC_ENCODINGS : SIMULCAST_ENCODINGS,
+    codecOptions: { videoGoogleStartBitrate: 1000 }
+  };
+}
+
+// The spatial layer worth receiving for a tile this many pixels wide:
+// thumbnails get the lowest one, large tiles the full resolution
+export function getSpatialLayerForWidth(width: number): number {
+  if (width < 400) return 0;
+  if (width < 800) return 1;
+  return 2;
+}
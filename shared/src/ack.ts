@@ -0,0 +1,16 @@
+import type { ErrorCode } from './errors.js';
+
+// Every acknowledged request is answered with one of these. Check ok before
+// reading data, error.code tells what went wrong without parsing the message
+// and retryable whether sending the same request again may help.
+export interface AckError {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+}
+
+export type AckResult<T = null> =
+  | { ok: true; data: T }
+  | { ok: false; error: AckError };
+
+export type Ack<T = null> = (result: AckResult<T>) => void;
@@ -0,0 +1,56 @@
+// Everything a request can fail with. A retryable error may go away by
+// itself, so the same request is worth sending again after a moment. The
+// others need something to change first, or are final.
+export const ERROR_CODES = {
+  INVALID_PAYLOAD: { retryable: false },
+  FORBIDDEN: { retryable: false },
+  NOT_IN_ROOM: { retryable: false },
+  ALREADY_IN_ROOM: { retryable: false },
+  ROOM_FULL: { retryable: false },
+  // A host locked the room, only hosts get in until they unlock it
+  ROOM_LOCKED: { retryable: false },
+  WRONG_PASSWORD: { retryable: false },
+  // A host removed them, they stay out until the room closes
+  BANNED: { retryable: false },
+  ROOM_EXISTS: { retryable: false },
+  ROOM_NOT_FOUND: { retryable: false },
+  // Still in the lobby, see lobbyAdmitted
+  NOT_ADMITTED: { retryable: false },
+  NOT_IN_LOBBY: { retryable: false },
+  ADMISSION_DENIED: { retryable: false },
+  PEER_NOT_FOUND: { retryable: false },
+  SESSION_NOT_FOUND: { retryable: false },
+  TRANSPORT_NOT_FOUND: { retryable: false },
+  PRODUCER_NOT_FOUND: { retryable: false },
+  CONSUMER_NOT_FOUND: { retryable: false },
+  // The capabilities are sent on their own and may not have arrived yet
+  RTP_CAPABILITIES_MISSING: { retryable: true },
+  CANNOT_CONSUME: { retryable: false },
+  NO_MEDIA: { retryable: false },
+  ALREADY_RECORDING: { retryable: false },
+  NOT_RECORDING: { retryable: false },
+  EGRESS_NOT_FOUND: { retryable: false },
+  INGEST_NOT_FOUND: { retryable: false },
+  // Out of workers or ports for now
+  UNAVAILABLE: { retryable: true },
+  // Anything unexpected
+  REQUEST_FAILED: { retryable: false }
+} as const satisfies Record<string, { retryable: boolean }>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export const isRetryable = (code: ErrorCode) => ERROR_CODES[code].retryable;
+
+// Thrown by the server for a failure the client should hear about by code
+export class RequestError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+
+  get retryable() {
+    return isRetryable(this.code);
+  }
+}
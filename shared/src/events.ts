@@ -0,0 +1,178 @@
+import type { Ack } from './ack.js';
+import type {
+  ChatMessageRequest,
+  ConnectTransportRequest,
+  ConsumeRequest,
+  ConsumerRequest,
+  CloseIngestRequest,
+  CreateIngestRequest,
+  JoinRoomRequest,
+  LobbyDecisionRequest,
+  PeerRequest,
+  ProduceDataRequest,
+  ProduceRequest,
+  ProducerRequest,
+  ProtocolConnectTransportRequest,
+  ProtocolCreateConsumerRequest,
+  ProtocolCreateTransportRequest,
+  ProtocolJoinRoomRequest,
+  RestartIceRequest,
+  ResumeSessionRequest,
+  SetRoomLockedRequest,
+  SetBandwidthCapRequest,
+  SetConsumerPreferredLayersRequest,
+  StartEgressRequest,
+  StopEgressRequest
+} from './schemas.js';
+import type {
+  ActiveSpeaker,
+  AudioLevel,
+  ChatMessage,
+  ConsumerCreated,
+  ConsumerLayersChanged,
+  ConsumerOptions,
+  ConsumerScore,
+  DataConsumerOptions,
+  EgressInfo,
+  Identity,
+  IceParameters,
+  IngestInfo,
+  JoinRoomResult,
+  JoinedRoom,
+  LobbyRequest,
+  ModerationEvent,
+  PeerInfo,
+  PeerRoleChanged,
+  PeerSummary,
+  ProducerAnnouncement,
+  ProducerInfo,
+  ProducerPausedInfo,
+  ProducerScore,
+  ProtocolError,
+  RecordingInfo,
+  ResumeSessionResult,
+  RoomInfo,
+  RtpCapabilities,
+  TransportCreated,
+  TransportOptions
+} from './types.js';
+
+// What clients send. camelCase requests take an ack and are answered with an
+// AckResult. The kebab-case ones (useMediaSoup) are answered with a follow-up
+// event from ServerToClientEvents, or with 'error' naming the request.
+export interface ClientToServerEvents {
+  joinRoom: (payload: JoinRoomRequest, callback: Ack<JoinRoomResult>) => void;
+  resumeSession: (payload: ResumeSessionRequest, callback: Ack<ResumeSessionResult>) => void;
+  getRouterRtpCapabilities: (callback: Ack<RtpCapabilities>) => void;
+  setRtpCapabilities: (rtpCapabilities: RtpCapabilities, callback: Ack) => void;
+  createProducerTransport: (callback: Ack<TransportOptions>) => void;
+  createConsumerTransport: (callback: Ack<TransportOptions>) => void;
+  connectProducerTransport: (payload: ConnectTransportRequest, callback: Ack) => void;
+  connectConsumerTransport: (payload: ConnectTransportRequest, callback: Ack) => void;
+  restartIce: (payload: RestartIceRequest, callback: Ack<{ iceParameters: IceParameters }>) => void;
+  produce: (payload: ProduceRequest, callback: Ack<{ id: string }>) => void;
+  consume: (payload: ConsumeRequest, callback: Ack<ConsumerOptions>) => void;
+  produceData: (payload: ProduceDataRequest, callback: Ack<{ id: string }>) => void;
+  consumeData: (callback: Ack<DataConsumerOptions>) => void;
+  // For clients without a chat DataChannel
+  sendChatMessage: (payload: ChatMessageRequest, callback: Ack<ChatMessage>) => void;
+  resumeConsumer: (payload: ConsumerRequest, callback: Ack) => void;
+  setConsumerPreferredLayers: (payload: SetConsumerPreferredLayersRequest, callback: Ack) => void;
+  setBandwidthCap: (payload: SetBandwidthCapRequest, callback: Ack) => void;
+  closeProducer: (payload: ProducerRequest, callback: Ack) => void;
+  pauseProducer: (payload: ProducerRequest, callback: Ack) => void;
+  resumeProducer: (payload: ProducerRequest, callback: Ack) => void;
+  getProducers: (callback: Ack<ProducerInfo[]>) => void;
+  startRecording: (callback: Ack<RecordingInfo>) => void;
+  stopRecording: (callback: Ack<RecordingInfo>) => void;
+  startEgress: (payload: StartEgressRequest, callback: Ack<EgressInfo>) => void;
+  stopEgress: (payload: StopEgressRequest, callback: Ack<EgressInfo>) => void;
+  listEgress: (callback: Ack<EgressInfo[]>) => void;
+  createIngest: (payload: CreateIngestRequest, callback: Ack<IngestInfo>) => void;
+  closeIngest: (payload: CloseIngestRequest, callback: Ack<IngestInfo>) => void;
+  listIngests: (callback: Ack<IngestInfo[]>) => void;
+  // Hosts: only other hosts get into a locked room
+  setRoomLocked: (payload: SetRoomLockedRequest, callback: Ack<RoomInfo>) => void;
+  // Hosts: who is waiting in the lobby, and letting them in or not
+  listLobby: (callback: Ack<LobbyRequest[]>) => void;
+  admit: (payload: LobbyDecisionRequest, callback: Ack) => void;
+  deny: (payload: LobbyDecisionRequest, callback: Ack) => void;
+  // Hosts: deal with someone disrupting the call. muteAll answers with how
+  // many microphones it muted.
+  kickPeer: (payload: PeerRequest, callback: Ack) => void;
+  muteAll: (callback: Ack<{ muted: number }>) => void;
+  stopVideo: (payload: PeerRequest, callback: Ack) => void;
+  transferHost: (payload: PeerRequest, callback: Ack) => void;
+
+  'join-room': (payload: ProtocolJoinRoomRequest) => void;
+  'create-transport': (payload: ProtocolCreateTransportRequest) => void;
+  'connect-transport': (payload: ProtocolConnectTransportRequest) => void;
+  'create-producer': (payload: ProduceRequest) => void;
+  'create-consumer': (payload: ProtocolCreateConsumerRequest) => void;
+  'resume-consumer': (payload: ConsumerRequest) => void;
+  'close-producer': (payload: ProducerRequest) => void;
+  'get-producers': () => void;
+  'produce-data': (payload: ProduceDataRequest) => void;
+  'consume-data': () => void;
+  // No reply, the message comes back like everyone else's
+  'send-chat-message': (payload: ChatMessageRequest) => void;
+  'leave-room': () => void;
+}
+
+export interface ServerToClientEvents {
+  user_id: (identity: Identity) => void;
+  newProducer: (producer: ProducerInfo) => void;
+  producerClosed: (data: { producerId: string }) => void;
+  producerPaused: (producer: ProducerPausedInfo) => void;
+  producerResumed: (producer: ProducerPausedInfo) => void;
+  producerScore: (score: ProducerScore) => void;
+  consumerScore: (score: ConsumerScore) => void;
+  consumerLayersChanged: (layers: ConsumerLayersChanged) => void;
+  activeSpeaker: (speaker: ActiveSpeaker) => void;
+  audioLevels: (levels: AudioLevel[]) => void;
+  recordingStarted: (recording: RecordingInfo) => void;
+  recordingStopped: (recording: RecordingInfo) => void;
+  egressStarted: (egress: EgressInfo) => void;
+  egressStopped: (egress: EgressInfo) => void;
+  roomMigrated: (data: { roomId: string }) => void;
+  roomUpdated: (room: RoomInfo) => void;
+  // The room was deleted, everyone in it is out
+  roomClosed: (data: { roomId: string }) => void;
+  // To hosts: someone asked to join, or stopped waiting (admitted, denied or gone)
+  lobbyJoinRequest: (request: LobbyRequest) => void;
+  lobbyLeft: (data: { socketId: string }) => void;
+  // To whoever waits in the lobby. Kebab-case clients get existing-peers on
+  // admission instead, and an ADMISSION_DENIED error for join-room.
+  lobbyAdmitted: (joined: JoinedRoom) => void;
+  lobbyDenied: (data: { roomId: string }) => void;
+  // Who is in the room, for the participant list
+  peerJoined: (peer: PeerInfo) => void;
+  peerLeft: (data: { socketId: string }) => void;
+  peerRoleChanged: (change: PeerRoleChanged) => void;
+  // What a host did, see kickPeer, muteAll, stopVideo and transferHost.
+  // Whoever was kicked hears kicked first, then is disconnected.
+  moderation: (event: ModerationEvent) => void;
+  kicked: (data: { roomId: string }) => void;
+  // Chat for whoever does not receive it on a DataChannel, and the room's
+  // history, which comes with every getProducers/get-producers
+  chatMessage: (message: ChatMessage) => void;
+  chatHistory: (messages: ChatMessage[]) => void;
+
+  'lobby-waiting': (data: { roomId: string }) => void;
+  'existing-peers': (peers: PeerSummary[]) => void;
+  'new-peer': (peer: PeerSummary) => void;
+  'peer-disconnected': (data: { socketId: string }) => void;
+  'router-rtp-capabilities': (rtpCapabilities: RtpCapabilities) => void;
+  'transport-created': (transport: TransportCreated) => void;
+  'transport-connected': (data: { transportId: string }) => void;
+  'producer-created': (data: { producerId: string }) => void;
+  'producer-closed': (data: { producerId: string }) => void;
+  'existing-producers': (producers: ProducerAnnouncement[]) => void;
+  'new-producer': (producer: ProducerAnnouncement) => void;
+  'consumer-created': (consumer: ConsumerCreated) => void;
+  'consumer-resumed': (data: { consumerId: string }) => void;
+  'consumer-closed': (data: { consumerId: string }) => void;
+  'data-producer-created': (data: { dataProducerId: string }) => void;
+  'data-consumer-created': (dataConsumer: DataConsumerOptions) => void;
+  error: (error: ProtocolError) => void;
+}
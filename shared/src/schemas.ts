@@ -0,0 +1,199 @@
+import { z } from 'zod';
+import type { DtlsParameters, RtpCapabilities, RtpParameters, SctpStreamParameters } from 'mediasoup-client/types';
+import { RequestError } from './errors.js';
+import { CHAT_LABEL, PRODUCER_SOURCES, ROLES } from './types.js';
+
+// Runtime checks for everything a client sends, so a handler never works
+// on a payload of the wrong shape. The request types are derived from them.
+
+const id = z.string().min(1);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// mediasoup validates RTP and DTLS parameters thoroughly itself, here they
+// only have to look like the right thing
+const mediasoupParameters = <T>(name: string, ...keys: string[]) => z.custom<T>(
+  (value) => isObject(value) && keys.every(key => key in value),
+  { message: `Invalid ${name}` }
+);
+
+export const dtlsParametersSchema = mediasoupParameters<DtlsParameters>('DTLS parameters', 'fingerprints');
+export const rtpParametersSchema = mediasoupParameters<RtpParameters>('RTP parameters', 'codecs');
+export const rtpCapabilitiesSchema = mediasoupParameters<RtpCapabilities>('RTP capabilities', 'codecs');
+export const sctpStreamParametersSchema = mediasoupParameters<SctpStreamParameters>('SCTP stream parameters', 'streamId');
+
+const mediaKind = z.enum(['audio', 'video']);
+
+export const joinRoomSchema = z.object({
+  roomId: id,
+  displayName: z.string().max(100).nullish(),
+  // Only 'viewer' has an effect, the token decides the role otherwise
+  role: z.enum(ROLES).optional(),
+  // For rooms created with one, hosts do not need it
+  password: z.string().max(100).optional()
+});
+
+// A room created ahead of time over HTTP, see the backend's roomsApi. The
+// room id is made up when there is none.
+export const createRoomSchema = z.object({
+  roomId: id.optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+  maxParticipants: z.number().int().min(1).max(1000).optional(),
+  maxProducers: z.number().int().min(0).max(1000).optional(),
+  password: z.string().min(1).max(100).optional(),
+  locked: z.boolean().optional(),
+  lobby: z.boolean().optional()
+});
+
+export const setRoomLockedSchema = z.object({
+  locked: z.boolean()
+});
+
+// Hosts: admit or deny someone waiting in the lobby
+export const lobbyDecisionSchema = z.object({
+  socketId: id
+});
+
+export const resumeSessionSchema = z.object({
+  sessionId: id
+});
+
+export const connectTransportSchema = z.object({
+  dtlsParameters: dtlsParametersSchema
+});
+
+export const produceSchema = z.object({
+  kind: mediaKind,
+  rtpParameters: rtpParametersSchema,
+  appData: z.object({ source: z.enum(PRODUCER_SOURCES).optional() }).optional()
+});
+
+// Hosts: someone else in the room, by the peer id they joined with
+export const peerSchema = z.object({
+  peerId: id
+});
+
+export const consumeSchema = z.object({
+  producerId: id
+});
+
+export const consumerSchema = z.object({
+  consumerId: id
+});
+
+export const producerSchema = z.object({
+  producerId: id
+});
+
+// Chat is the only DataChannel there is
+export const produceDataSchema = z.object({
+  sctpStreamParameters: sctpStreamParametersSchema,
+  label: z.literal(CHAT_LABEL),
+  protocol: z.string().optional()
+});
+
+// Also what a chat DataProducer sends, as JSON
+export const chatMessageSchema = z.object({
+  text: z.string().trim().min(1).max(2000)
+});
+
+export const setConsumerPreferredLayersSchema = z.object({
+  consumerId: id,
+  spatialLayer: z.number().int().min(0),
+  temporalLayer: z.number().int().min(0).optional()
+});
+
+// null lifts the cap
+export const setBandwidthCapSchema = z.object({
+  maxBitrate: z.number().int().positive().nullable()
+});
+
+export const startEgressSchema = z.object({
+  type: z.enum(['hls', 'rtmp']),
+  url: z.string().optional(),
+  // The peer to send out, the room's broadcaster otherwise
+  socketId: id.optional()
+});
+
+export const stopEgressSchema = z.object({
+  egressId: id
+});
+
+export const createIngestSchema = z.object({
+  displayName: z.string().max(100).optional()
+});
+
+export const closeIngestSchema = z.object({
+  ingestId: id
+});
+
+export const restartIceSchema = z.object({
+  transportId: id
+});
+
+// The kebab-case protocol, see useMediaSoup
+
+export const protocolJoinRoomSchema = z.object({
+  roomId: id,
+  name: z.string().max(100).optional(),
+  password: z.string().max(100).optional()
+});
+
+export const protocolCreateTransportSchema = z.object({
+  direction: z.enum(['send', 'recv'])
+});
+
+export const protocolConnectTransportSchema = z.object({
+  transportId: id,
+  dtlsParameters: dtlsParametersSchema
+});
+
+export const protocolCreateConsumerSchema = z.object({
+  producerId: id,
+  rtpCapabilities: rtpCapabilitiesSchema
+});
+
+export type JoinRoomRequest = z.infer<typeof joinRoomSchema>;
+export type CreateRoomRequest = z.infer<typeof createRoomSchema>;
+export type SetRoomLockedRequest = z.infer<typeof setRoomLockedSchema>;
+export type LobbyDecisionRequest = z.infer<typeof lobbyDecisionSchema>;
+export type PeerRequest = z.infer<typeof peerSchema>;
+export type ResumeSessionRequest = z.infer<typeof resumeSessionSchema>;
+export type ConnectTransportRequest = z.infer<typeof connectTransportSchema>;
+export type ProduceRequest = z.infer<typeof produceSchema>;
+export type ConsumeRequest = z.infer<typeof consumeSchema>;
+export type ProduceDataRequest = z.infer<typeof produceDataSchema>;
+export type ChatMessageRequest = z.infer<typeof chatMessageSchema>;
+export type ConsumerRequest = z.infer<typeof consumerSchema>;
+export type ProducerRequest = z.infer<typeof producerSchema>;
+export type SetConsumerPreferredLayersRequest = z.infer<typeof setConsumerPreferredLayersSchema>;
+export type SetBandwidthCapRequest = z.infer<typeof setBandwidthCapSchema>;
+export type StartEgressRequest = z.infer<typeof startEgressSchema>;
+export type StopEgressRequest = z.infer<typeof stopEgressSchema>;
+export type CreateIngestRequest = z.infer<typeof createIngestSchema>;
+export type CloseIngestRequest = z.infer<typeof closeIngestSchema>;
+export type RestartIceRequest = z.infer<typeof restartIceSchema>;
+export type ProtocolJoinRoomRequest = z.infer<typeof protocolJoinRoomSchema>;
+export type ProtocolCreateTransportRequest = z.infer<typeof protocolCreateTransportSchema>;
+export type ProtocolConnectTransportRequest = z.infer<typeof protocolConnectTransportSchema>;
+export type ProtocolCreateConsumerRequest = z.infer<typeof protocolCreateConsumerSchema>;
+
+// Thrown by parsePayload
+export class InvalidPayloadError extends RequestError {
+  constructor(message: string) {
+    super('INVALID_PAYLOAD', message);
+  }
+}
+
+const describeIssue = (issue: z.core.$ZodIssue) =>
+  issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message;
+
+// Check a payload against its schema and return it parsed
+export const parsePayload = <T>(schema: z.ZodType<T>, payload: unknown): T => {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new InvalidPayloadError(`Invalid payload: ${result.error.issues.map(describeIssue).join(', ')}`);
+  }
+  return result.data;
+};
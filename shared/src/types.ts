@@ -0,0 +1,283 @@
+import type { ErrorCode } from './errors.js';
+import type {
+  DtlsParameters,
+  IceCandidate,
+  IceParameters,
+  MediaKind,
+  RtpCapabilities,
+  RtpParameters,
+  SctpParameters,
+  SctpStreamParameters
+} from 'mediasoup-client/types';
+
+export type {
+  DtlsParameters,
+  IceCandidate,
+  IceParameters,
+  MediaKind,
+  RtpCapabilities,
+  RtpParameters,
+  SctpParameters,
+  SctpStreamParameters
+};
+
+export const ROLES = ['host', 'speaker', 'viewer'] as const;
+export type Role = typeof ROLES[number];
+
+export const PRODUCER_SOURCES = ['mic', 'webcam', 'screen'] as const;
+export type ProducerSource = typeof PRODUCER_SOURCES[number];
+
+export type TransportDirection = 'producer' | 'consumer';
+
+// The label of the DataChannel room chat is sent and received on
+export const CHAT_LABEL = 'chat';
+
+// The identity the server verified from our token
+export interface Identity {
+  userId: string;
+  displayName: string | null;
+  roomId: string;
+  role: Role;
+}
+
+export interface PeerInfo {
+  socketId: string;
+  displayName: string;
+  role: Role;
+}
+
+export interface PeerRoleChanged {
+  socketId: string;
+  role: Role;
+}
+
+export type ModerationAction = 'kick' | 'muteAll' | 'stopVideo' | 'transferHost';
+
+// What a host did to the room or to someone in it, for everyone to see and
+// for the audit log. peerId is who it was done to, null for muteAll.
+export interface ModerationEvent {
+  roomId: string;
+  action: ModerationAction;
+  by: string;
+  byName: string;
+  peerId: string | null;
+  peerName: string | null;
+  at: string;
+}
+
+// A producer in the room. socketId is the peer id of whoever sends it.
+export interface ProducerInfo {
+  producerId: string;
+  socketId: string;
+  kind: MediaKind;
+  displayName: string;
+  appData: { source: ProducerSource };
+  paused: boolean;
+}
+
+// by is the peer that paused or resumed it, a host when it was not the owner
+export interface ProducerPausedInfo extends ProducerInfo {
+  by: string;
+}
+
+// Like RTCIceServer, which the server has no DOM types for
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface TransportOptions {
+  id: string;
+  iceParameters: IceParameters;
+  iceCandidates: IceCandidate[];
+  dtlsParameters: DtlsParameters;
+  // Set when the transport can carry DataChannels
+  sctpParameters?: SctpParameters;
+  iceServers: IceServer[];
+}
+
+export interface ConsumerOptions {
+  id: string;
+  producerId: string;
+  kind: MediaKind;
+  rtpParameters: RtpParameters;
+}
+
+export interface DataConsumerOptions {
+  id: string;
+  dataProducerId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: string;
+  protocol: string;
+}
+
+// socketId is the peer id of the sender
+export interface ChatMessage {
+  messageId: string;
+  socketId: string;
+  displayName: string;
+  text: string;
+  sentAt: string;
+}
+
+// A room and the limits it was created with. maxProducers is null when
+// there is no limit on how many can publish.
+export interface RoomInfo {
+  roomId: string;
+  name: string;
+  maxParticipants: number;
+  maxProducers: number | null;
+  locked: boolean;
+  // Everyone but hosts waits until a host admits them
+  lobby: boolean;
+  hasPassword: boolean;
+  participants: number;
+}
+
+export interface JoinedRoom {
+  roomId: string;
+  room: RoomInfo;
+  admitted: true;
+  peers: PeerInfo[];
+  peerId: string;
+  sessionId: string;
+}
+
+// Waiting in the lobby, until lobbyAdmitted or lobbyDenied
+export interface WaitingInLobby {
+  roomId: string;
+  room: RoomInfo;
+  admitted: false;
+}
+
+export type JoinRoomResult = JoinedRoom | WaitingInLobby;
+
+// Someone waiting in the lobby, as hosts see them
+export interface LobbyRequest {
+  socketId: string;
+  userId: string;
+  displayName: string;
+  requestedAt: string;
+}
+
+// What is still alive on the server for a resumed session
+export interface ResumeSessionResult {
+  roomId: string;
+  peerId: string;
+  transports: TransportDirection[];
+  producerIds: string[];
+  consumerIds: string[];
+  recording: RecordingInfo | null;
+}
+
+// One score per encoding the producer sends
+export interface ProducerScore {
+  producerId: string;
+  score: { encodingIdx: number; ssrc: number; rid?: string; score: number }[];
+}
+
+export interface ConsumerScore {
+  consumerId: string;
+  producerId: string;
+  score: { score: number; producerScore: number; producerScores: number[] };
+}
+
+export interface ConsumerLayers {
+  spatialLayer: number;
+  temporalLayer?: number;
+}
+
+export interface ConsumerLayersChanged {
+  consumerId: string;
+  producerId: string;
+  layers: ConsumerLayers | null;
+}
+
+export interface ActiveSpeaker {
+  producerId: string;
+  socketId: string;
+}
+
+export interface AudioLevel {
+  producerId: string;
+  socketId: string;
+  volume: number;
+}
+
+export interface RecordingInfo {
+  recordingId: string;
+  roomId: string;
+  startedAt: string;
+}
+
+export type EgressType = 'hls' | 'rtmp';
+
+export interface EgressInfo {
+  egressId: string;
+  roomId: string;
+  type: EgressType;
+  socketId: string;
+  displayName: string;
+  startedAt: string;
+  playlistUrl: string | null;
+}
+
+// Where an external encoder sends one kind of media
+export interface IngestEndpoint {
+  ip: string;
+  port: number;
+  payloadType: number;
+  ssrc: number;
+}
+
+export interface IngestInfo {
+  ingestId: string;
+  roomId: string;
+  peerId: string;
+  displayName: string;
+  createdAt: string;
+  audio: IngestEndpoint;
+  video: IngestEndpoint;
+  ffmpegCommand: string;
+}
+
+// The kebab-case protocol spoken by useMediaSoup describes things its own way
+
+export interface PeerSummary {
+  socketId: string;
+  name: string;
+}
+
+export interface ProducerAnnouncement {
+  producerId: string;
+  peerId: string;
+  peerName: string;
+  kind: MediaKind;
+  appData: { source: ProducerSource };
+  paused?: boolean;
+}
+
+export interface TransportCreated {
+  transportId: string;
+  params: TransportOptions;
+  direction: 'send' | 'recv';
+}
+
+export interface ConsumerCreated {
+  consumerId: string;
+  producerId: string;
+  kind: MediaKind;
+  rtpParameters: RtpParameters;
+  peerId: string;
+  peerName: string;
+  appData: { source: ProducerSource };
+}
+
+// A kebab-case request that failed, event is the name of the request
+export interface ProtocolError {
+  event: string;
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+}